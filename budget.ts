@@ -0,0 +1,96 @@
+export {Budget};
+export type {Limits, Abort};
+
+import type { Clock } from './clock.ts';
+import { LimitError } from './exceptions.ts';
+
+// What a run (a direct command, including Go) may use up.
+interface Limits {
+    steps?: number;
+    // Milliseconds, by the clock's elapsed time.
+    time?: number;
+    // Formulas within formulas, i.e. how far they can recurse.
+    depth?: number;
+    // Values, array elements, formulas, steps and forms take a cell each.
+    cells?: number;
+}
+
+// e.g. an AbortSignal, though anything the host can set while we run will do.
+interface Abort {
+    readonly aborted: boolean;
+}
+
+// Deep enough for any sensible recursion, but short of overflowing
+// javascript's own stack.
+const DEFAULT_DEPTH = 1000;
+
+class Budget {
+    limits: Required<Limits>;
+    abort: Abort | null;
+    clock: Clock;
+    steps: number;
+    depth: number;
+    started: number;
+
+    constructor(clock: Clock, limits: Limits = {}, abort: Abort | null = null) {
+        this.limits = {
+            steps: limits.steps ?? Infinity,
+            time: limits.time ?? Infinity,
+            depth: limits.depth ?? DEFAULT_DEPTH,
+            cells: limits.cells ?? Infinity,
+        };
+        this.abort = abort;
+        this.clock = clock;
+        this.steps = 0;
+        this.depth = 0;
+        this.started = clock.elapsed();
+    }
+
+    start() {
+        this.steps = 0;
+        this.depth = 0;
+        this.started = this.clock.elapsed();
+    }
+
+    // Anything that might go on for a while checks in here.
+    check() {
+        if (this.abort?.aborted) {
+            throw new LimitError('abort', 'Interrupted.');
+        }
+        if (this.limits.time !== Infinity && this.clock.elapsed() - this.started > this.limits.time) {
+            throw new LimitError('time', `Time limit of ${this.limits.time} ms reached.`);
+        }
+    }
+
+    step() {
+        if (++this.steps > this.limits.steps) {
+            throw new LimitError('steps', `Step limit of ${this.limits.steps} reached.`);
+        }
+        this.check();
+    }
+
+    // Around working out a formula.
+    enter() {
+        if (this.depth >= this.limits.depth) {
+            throw new LimitError('depth', `Formulas nested more than ${this.limits.depth} deep.`);
+        }
+        this.depth += 1;
+        this.check();
+    }
+
+    leave() {
+        this.depth -= 1;
+    }
+
+    // Formulas went deeper than the javascript stack does, whatever the limit.
+    overflow(): LimitError {
+        return new LimitError('depth', `Formulas nested more than ${this.depth} deep.`);
+    }
+
+    // Before storing something new, which would make it size cells in all.
+    store(size: () => number) {
+        if (this.limits.cells !== Infinity && size() > this.limits.cells) {
+            throw new LimitError('cells', `Size limit of ${this.limits.cells} cells reached.`);
+        }
+    }
+}
@@ -0,0 +1,327 @@
+export {check, checkSource, describeDiagnostic};
+export type {Diagnostic, Severity};
+
+import type { Joss } from './joss.ts';
+import { tokenise } from './tokenise.ts';
+import { JossError, Span } from './exceptions.ts';
+import { Formula, VariableExpression } from './expression.ts';
+import {
+    parse, Command, StoredCommand, FormDefinition, ParentheticCommand,
+    Set as SetVerb, Let, LetSparse, Demand, Do, To, Done, Quit, Type, Maths,
+} from './command.ts';
+
+// Errors would stop the program; warnings might just be oversights.
+type Severity = 'error' | 'warning';
+
+// Something that would go wrong (or never happen) when the program is run.
+interface Diagnostic {
+    severity: Severity;
+    // The stored step it's in, or null for a direct command.
+    step: string | null;
+    // The line it's on (from 1), when checking source.
+    line: number | null;
+    message: string;
+    // Where in the line, if we know.
+    span: Span | null;
+}
+
+// A command to be checked, and where it came from.
+interface Checked {
+    step: string | null;
+    line: number | null;
+    command: Command;
+}
+
+// The program as it stands, along with whatever values and formulas are set now.
+function check(joss: Joss): Diagnostic[] {
+    return checkCommands(joss, programSteps(joss));
+}
+
+function programSteps(joss: Joss): Checked[] {
+    return Object.entries(joss.program)
+        .flatMap(([step, command]) => command instanceof Command ? [{step, line: null, command}] : [])
+        .sort((a, b) => Number(a.step) - Number(b.step));
+}
+
+// Lines as they would be typed in (e.g. an item in the file), without typing
+// them in: so along with the program as it stands, but only they're reported on.
+function checkSource(joss: Joss, source: string): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    // Only the last version of a step counts (and the program's come first).
+    const steps = new Map(programSteps(joss).map(c => [c.step!, c]));
+    const direct: Checked[] = [];
+    let formNext = false;
+
+    source.split('\n').forEach((text, i) => {
+        const line = i + 1;
+        if (formNext) {
+            // The form itself.
+            formNext = false;
+            return;
+        }
+        let parsed;
+        try {
+            parsed = parse(tokenise(text));
+        } catch (e) {
+            if (e instanceof JossError) {
+                diagnostics.push({severity: 'error', step: null, line, message: e.message, span: e.span});
+                return;
+            }
+            throw e;
+        }
+        if (parsed instanceof StoredCommand) {
+            const step = `${parsed.part}.${parsed.step}`;
+            steps.set(step, {step, line, command: parsed.command});
+        } else if (parsed instanceof ParentheticCommand) {
+            direct.push({step: null, line, command: parsed.command});
+        } else if (parsed instanceof FormDefinition) {
+            formNext = true;
+        } else {
+            direct.push({step: null, line, command: parsed});
+        }
+    });
+
+    const commands = [...steps.values(), ...direct].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+    const found = checkCommands(joss, commands).filter(d => d.line !== null);
+    return [...diagnostics, ...found].sort((a, b) => a.line! - b.line!);
+}
+
+// e.g. Error at step 1.2:    No such part: 3
+function describeDiagnostic({severity, step, line, message}: Diagnostic): string {
+    const kind = severity === 'error' ? 'Error' : 'Warning';
+    if (line !== null) {
+        return `${kind} at line ${line}${step === null ? '' : ` (step ${step})`}:    ${message}`;
+    }
+    return step === null ? `${kind}:    ${message}` : `${kind} at step ${step}:    ${message}`;
+}
+
+function checkCommands(joss: Joss, commands: Checked[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const steps = new Map(commands.flatMap(c => c.step === null ? [] : [[c.step, c] as const]));
+    const parts = new Map<string, string[]>();
+    for (const step of steps.keys()) {
+        const part = step.split('.')[0];
+        parts.set(part, [...(parts.get(part) ?? []), step]);
+    }
+    for (const names of parts.values()) {
+        names.sort((a, b) => Number(a) - Number(b));
+    }
+
+    // What's set anywhere (or already), and the formulas Let defines.
+    const set = new Set(commands.flatMap(({command}) => writes(command)));
+    const formulas = new Map<string, number>();
+    for (const [s, v] of Object.entries(joss.variables)) {
+        if (v instanceof Formula) {
+            formulas.set(s, v.argNames.length);
+        }
+    }
+    for (const {command: {verb}} of commands) {
+        if (verb instanceof Let) {
+            formulas.set(verb.target.v, verb.argNames.length);
+        }
+    }
+
+    // What may have been set before each command, going through the direct
+    // commands in order and then each part from the top.
+    const flow = new Flow(steps, parts);
+    const beforeDirect = new Map<Checked, ReadonlySet<string>>();
+    let directly: ReadonlySet<string> = new Set();
+    for (const c of commands) {
+        if (c.step === null) {
+            beforeDirect.set(c, directly);
+            directly = flow.through(c.command, directly);
+        }
+    }
+    for (const names of parts.values()) {
+        flow.run(names[0], false, directly);
+    }
+
+    for (const c of commands) {
+        const {step, line, command} = c;
+        const report = (severity: Severity, message: string, span: Span | null = null) =>
+            diagnostics.push({severity, step, line, message, span});
+        // (Unless it can't be reached at all.)
+        const before = step === null ? beforeDirect.get(c) : flow.before.get(step);
+        const {verb} = command;
+
+        if ((verb instanceof Do || verb instanceof To) && target(verb, steps, parts) === null) {
+            report('error', verb.step === null ? `No such part: ${verb.part}` : `No such step: ${verb.part}.${verb.step}`);
+        }
+        if (verb instanceof To && step === null) {
+            report('error', 'To command can only be used in stored programs');
+        }
+
+        const reported = new Set<string>();
+        for (const r of reads(command)) {
+            const n = formulas.get(r.v);
+            if (n !== undefined && r.indices.length > 0 && r.indices.length !== n) {
+                report('error', `Formula ${r.v} needs ${n} ${n === 1 ? 'argument' : 'arguments'}.`, r.span);
+            }
+            if (joss.isDefined(r.v) || reported.has(r.v)) {
+                continue;
+            }
+            if (!set.has(r.v)) {
+                reported.add(r.v);
+                report('warning', `${r.v} is never set.`, r.span);
+            } else if (before && !before.has(r.v) && !(verb instanceof Let)) {
+                // (A formula's letters are only read when it's used.)
+                reported.add(r.v);
+                report('warning', `${r.v} is used before it's set.`, r.span);
+            }
+        }
+    }
+
+    // Each part can be done from the top, and a step that's done (or gone to)
+    // carries on to the next unless it can only ever go elsewhere.
+    const reached = new Set<string>();
+    const pending = [
+        ...[...parts.values()].map(names => names[0]),
+        ...commands.flatMap(({command: {verb}}) => verb instanceof Do ? [target(verb, steps, parts)] : []),
+    ];
+    while (pending.length > 0) {
+        const step = pending.pop();
+        if (step === null || step === undefined || reached.has(step)) {
+            continue;
+        }
+        reached.add(step);
+        pending.push(...following(step, false, steps, parts));
+    }
+    for (const {step, line} of commands) {
+        if (step !== null && !reached.has(step)) {
+            diagnostics.push({severity: 'warning', step, line, message: 'Can never be reached.', span: null});
+        }
+    }
+
+    return diagnostics.sort((a, b) => (a.line ?? Number(a.step)) - (b.line ?? Number(b.step)));
+}
+
+// Where the program may go once the step is finished (just a To, if it's
+// the only step being done): on to the next unless it can only go elsewhere.
+function following(step: string, only: boolean, steps: Map<string, Checked>, parts: Map<string, string[]>): string[] {
+    const {command} = steps.get(step)!;
+    const next = [];
+    if (command.verb instanceof To) {
+        next.push(target(command.verb, steps, parts));
+    }
+    const names = parts.get(step.split('.')[0])!;
+    const elsewhere = command.ifmodifier === null
+        && (command.verb instanceof To || command.verb instanceof Done || command.verb instanceof Quit);
+    if (!only && !elsewhere) {
+        next.push(names[names.indexOf(step) + 1]);
+    }
+    return next.filter(s => s !== null && s !== undefined);
+}
+
+// Which letters may have been set by the time each step is first run (i.e.
+// on some way of getting there), following the program as it would be run.
+class Flow {
+    steps: Map<string, Checked>;
+    parts: Map<string, string[]>;
+    before: Map<string, Set<string>>;
+    // What a Do may set, given what was set beforehand.
+    private done: Map<string, ReadonlySet<string>>;
+    // Dos being followed, so recursive ones stop.
+    private running: Set<string>;
+
+    constructor(steps: Map<string, Checked>, parts: Map<string, string[]>) {
+        this.steps = steps;
+        this.parts = parts;
+        this.before = new Map();
+        this.done = new Map();
+        this.running = new Set();
+    }
+
+    // From the step (and on through its part, unless only that step),
+    // returning what may be set by the time it's finished.
+    run(entry: string, only: boolean, set: ReadonlySet<string>): ReadonlySet<string> {
+        const key = `${entry}${only ? ' only' : ''}: ${[...set].sort().join(',')}`;
+        const known = this.done.get(key);
+        if (known) {
+            return known;
+        }
+        if (this.running.has(key)) {
+            return set;
+        }
+        this.running.add(key);
+
+        const before = new Map([[entry, new Set(set)]]);
+        const after = new Set(set);
+        const pending = [entry];
+        while (pending.length > 0) {
+            const step = pending.pop()!;
+            const out = this.through(this.steps.get(step)!.command, before.get(step)!);
+            out.forEach(s => after.add(s));
+            for (const next of following(step, only && step === entry, this.steps, this.parts)) {
+                const there = before.get(next);
+                // It's the first time around a loop that matters.
+                const back = next.split('.')[0] === step.split('.')[0] && Number(next) <= Number(step);
+                if (!there) {
+                    before.set(next, new Set(out));
+                    pending.push(next);
+                } else if (!back && [...out].some(s => !there.has(s))) {
+                    out.forEach(s => there.add(s));
+                    pending.push(next);
+                }
+            }
+        }
+        for (const [step, set] of before) {
+            const all = this.before.get(step) ?? new Set();
+            set.forEach(s => all.add(s));
+            this.before.set(step, all);
+        }
+
+        this.running.delete(key);
+        this.done.set(key, after);
+        return after;
+    }
+
+    // What may be set once the command's been run (including any Do it does).
+    through(command: Command, set: ReadonlySet<string>): ReadonlySet<string> {
+        let out = new Set([...set, ...writes(command)]);
+        const {verb} = command;
+        if (verb instanceof Do) {
+            const start = target(verb, this.steps, this.parts);
+            if (start !== null) {
+                out = new Set([...out, ...this.run(start, verb.step !== null, out)]);
+            }
+        }
+        return out;
+    }
+}
+
+// The step a Do or To starts at, if there is one.
+function target(verb: Do | To, steps: Map<string, Checked>, parts: Map<string, string[]>): string | null {
+    if (verb.step === null) {
+        return parts.get(verb.part)?.[0] ?? null;
+    }
+    const step = `${verb.part}.${verb.step}`;
+    return steps.has(step) ? step : null;
+}
+
+function writes({verb}: Command): string[] {
+    if (verb instanceof SetVerb || verb instanceof Let || verb instanceof Demand) {
+        return [verb.target.v];
+    } else if (verb instanceof LetSparse) {
+        return [verb.name];
+    } else if (verb instanceof Do && verb.for) {
+        return [verb.for.s];
+    }
+    return [];
+}
+
+function reads({verb, ifmodifier}: Command): VariableExpression[] {
+    const none = new Set<string>();
+    const uses = ifmodifier ? ifmodifier.expression.reads(none) : [];
+    if (verb instanceof SetVerb) {
+        uses.push(...verb.target.indices.flatMap(i => i.reads(none)), ...verb.expression.reads(none));
+    } else if (verb instanceof Let) {
+        uses.push(...verb.expression.reads(new Set(verb.argNames)));
+    } else if (verb instanceof Demand) {
+        uses.push(...verb.target.indices.flatMap(i => i.reads(none)));
+    } else if (verb instanceof Do) {
+        uses.push(...verb.times?.reads(none) ?? [], ...verb.for?.range.reads(none) ?? []);
+    } else if (verb instanceof Type) {
+        uses.push(...verb.expressions.flatMap(e => e instanceof Maths ? e.expression.reads(none) : []), ...verb.form?.reads(none) ?? []);
+    }
+    return uses;
+}
@@ -0,0 +1,38 @@
+export {SYSTEM_CLOCK, SYSTEM_ENVIRONMENT, formatDate, formatTime};
+export type {Clock, Environment};
+
+// Where time, date and timer come from (tests can stop the clock).
+interface Clock {
+    now(): Date;
+    // Milliseconds since some fixed point, for timing things.
+    elapsed(): number;
+}
+
+// What JOSS can find out about the system it's on.
+interface Environment {
+    // How many people are using it.
+    users(): number;
+    // Whose output this is (for page headings).
+    initials(): string;
+}
+
+const SYSTEM_CLOCK: Clock = {
+    now: () => new Date(),
+    elapsed: () => performance.now(),
+};
+
+// Just us.
+const SYSTEM_ENVIRONMENT: Environment = {
+    users: () => 1,
+    initials: () => (process.env.USER ?? '').slice(0, 2).toUpperCase(),
+};
+
+// JOSS style, e.g. 4-15-68
+function formatDate(d: Date): string {
+    return `${d.getMonth() + 1}-${String(d.getDate()).padStart(2, '0')}-${String(d.getFullYear() % 100).padStart(2, '0')}`;
+}
+
+// e.g. 14:05
+function formatTime(d: Date): string {
+    return `${d.getHours()}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
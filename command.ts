@@ -1,10 +1,12 @@
-export {parse};
+export {parse, Command, StoredCommand, FormDefinition, ParentheticCommand, Set, Let, LetSparse, Demand, Do, To, Done, Quit, Type, Maths};
 
-import { Token, TokenType, TokenIterator } from './tokenise.ts';
-import { Joss, Step } from './joss.ts';
-import { expect } from './parse_helpers.ts';
-import { Expression, VariableExpression, ValueRange } from './expression.ts';
-import { TerminateProgramException } from './exceptions.ts';
+import { Token, TokenType, TokenIterator, tokenise, sourceSince } from './tokenise.ts';
+import { Joss, Result, Step, functionName } from './joss.ts';
+import { expect, expectName, expectSettable } from './parse_helpers.ts';
+import { Expression, VariableExpression, ValueRange, Formula, asNumber, asTruth } from './expression.ts';
+import { formatDate, formatTime } from './clock.ts';
+import { check, checkSource, describeDiagnostic } from './checker.ts';
+import { ArityError, DomainError, JossError, LimitError, MissingDefinitionError, MissingStepError, ParseError, TypeMismatchError } from './exceptions.ts';
 
 class Command implements Step {
     verb: Verb;
@@ -15,12 +17,21 @@ class Command implements Step {
         this.ifmodifier = ifmodifier;
     }
 
-    eval(joss: Joss): void {
+    exec(joss: Joss): void {
         if (!this.ifmodifier || this.ifmodifier.eval(joss)) {
             this.verb.eval(joss);
         }
     }
 
+    // i.e. as a direct command.
+    eval(joss: Joss): void {
+        this.exec(joss);
+    }
+
+    toString(): string {
+        return `${this.verb}${this.ifmodifier ? ` ${this.ifmodifier}` : ''}`;
+    }
+
     static parse(tokens: TokenIterator<Token>): Command {
         const token = tokens.next();
         let verb;
@@ -46,12 +57,66 @@ class Command implements Step {
             case 'To':
                 verb = To.parse(tokens);
                 break;
+            case 'Demand':
+                verb = Demand.parse(tokens);
+                break;
+            case 'Delete':
+                verb = Delete.parse(tokens);
+                break;
+            case 'Store':
+                verb = Store.parse(tokens);
+                break;
+            case 'Get':
+                verb = Get.parse(tokens);
+                break;
+            case 'Done':
+                verb = new Done();
+                break;
+            case 'Quit':
+                verb = new Quit();
+                break;
+            case 'Stop':
+                verb = new Stop();
+                break;
+            case 'Go':
+                verb = new Go();
+                break;
+            case 'Cancel':
+                verb = new Cancel();
+                break;
+            case 'Reset':
+                verb = Reset.parse(tokens);
+                break;
+            case 'Line':
+                verb = new Line();
+                break;
+            case 'Page':
+                verb = new Page();
+                break;
+            case 'Head':
+                verb = new Head();
+                break;
+            case 'Trace':
+                verb = Trace.parse(tokens);
+                break;
+            case 'Profile':
+                verb = Profile.parse(tokens);
+                break;
+            case 'Break':
+                verb = Break.parse(tokens);
+                break;
+            case 'Step':
+                verb = SingleStep.parse(tokens);
+                break;
+            case 'Check':
+                verb = Check.parse(tokens);
+                break;
             default:
-                throw new Error(`${token.raw} is not a command`);
+                throw new ParseError(`${token.raw} is not a command`, token);
             }
             break;
         default:
-            throw new Error(`Expecting verb to start command, got ${token.raw}`);
+            throw new ParseError(`Expecting verb to start command, got ${token.raw}`, token);
         }
 
         return new Command(verb, tokens.peek().raw === 'if' ? If.parse(tokens) : null);
@@ -60,6 +125,7 @@ class Command implements Step {
 
 interface StringExpression {
     eval(joss: Joss): string;
+    toString(): string;
 }
 
 class If {
@@ -70,48 +136,112 @@ class If {
     }
 
     eval(joss: Joss): boolean {
-        // TODO boolean types...
-        return Boolean(this.expression.eval(joss, {}));
+        return asTruth(this.expression.eval(joss, {}));
+    }
+
+    toString(): string {
+        return `if ${this.expression}`;
     }
 
     static parse(tokens: TokenIterator<Token>): If {
         expect('', tokens.next(), TokenType.ID, 'if');
 
-        // TODO distinguish types properly.
         return new If(Expression.parse(tokens));
     }
 }
 
 abstract class Verb {
-    /**
-     * 
-     * @param joss 
-     * @returns line location to go to next (or null if not a goto)
-     */
     abstract eval(joss: Joss): void;
+
+    // i.e. the verb as it would be typed in.
+    abstract toString(): string;
 }
 
 class NoOp implements Verb {
     eval(_joss: Joss): void {}
+
+    toString(): string {
+        return '';
+    }
+}
+
+function formatValue(label: string, result: Result): string {
+    if (typeof result === 'number') {
+        return parseFloat(result.toPrecision(9)).toString();
+    }
+    return formatOther(label, result);
+}
+
+// A built-in function on its own (e.g. Type sqrt.) has no value to show.
+function formatOther(label: string, result: Result | string): string {
+    if (result instanceof Function) {
+        throw new TypeMismatchError(`I can't type ${label} without its arguments.`);
+    }
+    return String(result);
+}
+
+// Where Type puts values (in the JOSS layout), leaving the column
+// before for the sign.
+const VALUE_COLUMN = 16;
+
+// As JOSS prints them: 9 significant digits, no leading zero, and
+// scientific notation when very large or very small.
+function formatNumber(n: number): string {
+    if (n !== 0 && (Math.abs(n) >= 1e9 || Math.abs(n) < 1e-3)) {
+        const [mantissa, exponent] = n.toExponential(8).split('e');
+        return `${mantissa.replace(/[.]?0+$/, '')}·10↑${Number(exponent)}`;
+    }
+    return parseFloat(n.toPrecision(9)).toString().replace(/^(-?)0[.]/, '$1.');
+}
+
+// e.g. x+2 =           5
+function layOut(label: string, result: Result | string): string {
+    const value = typeof result === 'number' ? formatNumber(result) : formatOther(label, result);
+    return `${`${label} =`.padEnd(VALUE_COLUMN - 2)} ${value.startsWith('-') ? value : ` ${value}`}`;
+}
+
+// Readings of the clock and the like, e.g. users:   15
+function readOut(label: string, reading: Result | string): string {
+    return `${label}:   ${typeof reading === 'number' ? formatNumber(reading) : String(reading)}`;
 }
 
 class Maths implements StringExpression {
     expression: Expression;
+    // What was typed, which JOSS echoes back alongside the value.
+    source: string;
 
-    constructor(expr: Expression) {
+    constructor(expr: Expression, source: string = expr.toString()) {
         this.expression = expr;
+        this.source = source;
     }
 
     eval(joss: Joss): string {
+        if (this.expression instanceof VariableExpression && this.expression.indices.length === 0
+                && joss.arrays[this.expression.v]) {
+            // The whole array.
+            return listLetter(joss, this.expression.v);
+        }
+
+        // A formula with parameters is shown rather than worked out.
         const result = this.expression.eval(joss, {});
-        if (typeof result === 'number') {
-            return parseFloat(result.toPrecision(9)).toString();
+        if (joss.layout === 'terse' || result instanceof Formula) {
+            return formatValue(this.source, result);
+        }
+        if (this.expression instanceof VariableExpression && this.expression.indices.length === 0
+                && joss.isReading(this.expression.v)) {
+            return readOut(this.expression.v, result);
         }
-        return result.toString();
+        return layOut(this.source, result);
+    }
+
+    toString(): string {
+        return this.expression.toString();
     }
 
     static parse(tokens: TokenIterator<Token>): Maths {
-        return new Maths(Expression.parse(tokens));
+        const start = tokens.peek();
+        const expression = Expression.parse(tokens);
+        return new Maths(expression, sourceSince(tokens, start));
     }
 }
 
@@ -126,6 +256,10 @@ class QuotedString implements StringExpression {
         return this.val;
     }
 
+    toString(): string {
+        return `"${this.val}"`;
+    }
+
     static parse(tokens: TokenIterator<Token>): QuotedString {
         const token = tokens.next();
         // assert type === TokenType.STR
@@ -143,6 +277,7 @@ class Set implements Verb {
     }
 
     static parse(tokens: TokenIterator<Token>): Set {
+        expectSettable('variable', tokens.peek());
         const var_expression = VariableExpression.parse(tokens);
 
         expect('after set variable', tokens.next(), TokenType.OP, '=');
@@ -153,8 +288,15 @@ class Set implements Verb {
     eval(joss: Joss): void {
         this.target.eval_set(joss, this.expression.eval(joss, {}));
     }
+
+    toString(): string {
+        return `Set ${this.target}=${this.expression}`;
+    }
 }
 
+// As in the manual.
+const MAX_PARAMETERS = 10;
+
 class Let implements Verb {
     target: VariableExpression;
     argNames: string[];
@@ -167,21 +309,21 @@ class Let implements Verb {
     }
 
     eval(joss: Joss): void {
-        this.target.eval_set(joss, (...args: any[]) => {
-            if (args.length !== this.argNames.length) {
-                throw new Error('Invalid arity on function call');
-            }
-            const fnArgs = args.reduce((o, arg, i) => {
-                o[this.argNames[i]] = arg;
-                return o;
-            }, {});
+        this.target.eval_set(joss, new Formula(this.target.v, this.argNames, this.expression));
+    }
 
-            return this.expression.eval(joss, fnArgs);
-        });
+    toString(): string {
+        const args = this.argNames.length > 0 ? `(${this.argNames.join(',')})` : '';
+        return `Let ${this.target}${args}=${this.expression}`;
     }
 
-    static parse(tokens: TokenIterator<Token>): Set {
-        const v = tokens.next().raw;
+    static parse(tokens: TokenIterator<Token>): Let | LetSparse {
+        const v = expectSettable('formula name', tokens.next()).raw;
+        if (tokens.peek().raw === 'be') {
+            tokens.next();
+            expect('Let ... be sparse', tokens.next(), TokenType.VAR, 'sparse');
+            return new LetSparse(v);
+        }
 
         let token = tokens.peek();
         const argNames: string[] = [];
@@ -190,15 +332,18 @@ class Let implements Verb {
             const expectedBracket = token.raw === '[' ? ']' : ')';
 
             while (true) {
-                token = expect('variable name', tokens.next(), TokenType.VAR);
+                token = expectName('variable name', tokens.next());
                 argNames.push(token.raw);
                 if (tokens.peek().type === TokenType.CLOSE_BRACKET) {
                     break;
                 }
-                expect('next variable argument', token, TokenType.COMMA);
+                expect('next variable argument', tokens.next(), TokenType.COMMA);
             }
             expect('end of function arguments', tokens.next(), TokenType.CLOSE_BRACKET, expectedBracket);
         }
+        if (argNames.length > MAX_PARAMETERS) {
+            throw new ArityError('Please limit number of parameters to 10.');
+        }
 
         expect('after set variable', tokens.next(), TokenType.OP, '=');
 
@@ -206,20 +351,390 @@ class Let implements Verb {
     }
 }
 
+// Unset elements of the array are then 0, rather than undefined.
+class LetSparse implements Verb {
+    name: string;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    eval(joss: Joss): void {
+        joss.setSparse(this.name);
+    }
+
+    toString(): string {
+        return `Let ${this.name} be sparse`;
+    }
+}
+
+// Things other than values that can be typed (i.e. listed), deleted or stored,
+// e.g. Delete step 1.2, part 2, form 1, s, formula t.
+interface MathObject extends StringExpression {
+    delete(joss: Joss): void;
+    // What you'd type in to get it back again (see Store).
+    source(joss: Joss): string[];
+}
+
+class StepObject implements MathObject {
+    n: Expression;
+
+    constructor(n: Expression) {
+        this.n = n;
+    }
+
+    eval(joss: Joss): string {
+        return listStep(joss, stepNumber(joss, this.n));
+    }
+
+    delete(joss: Joss): void {
+        joss.deleteStep(stepNumber(joss, this.n));
+    }
+
+    source(joss: Joss): string[] {
+        return [this.eval(joss)];
+    }
+
+    toString(): string {
+        return `step ${this.n}`;
+    }
+}
+
+class PartObject implements MathObject {
+    n: Expression;
+
+    constructor(n: Expression) {
+        this.n = n;
+    }
+
+    eval(joss: Joss): string {
+        const part = partNumber(joss, this.n);
+        if (!joss.programParts[part]) {
+            throw new MissingStepError(`No such part: ${part}`);
+        }
+        return listPart(joss, part);
+    }
+
+    delete(joss: Joss): void {
+        joss.deletePart(partNumber(joss, this.n));
+    }
+
+    source(joss: Joss): string[] {
+        return this.eval(joss).split('\n');
+    }
+
+    toString(): string {
+        return `part ${this.n}`;
+    }
+}
+
+class FormObject implements MathObject {
+    n: Expression;
+
+    constructor(n: Expression) {
+        this.n = n;
+    }
+
+    // Just the form itself (so a form without fields can be used for headings).
+    eval(joss: Joss): string {
+        return joss.getForm(formNumber(joss, this.n)).template;
+    }
+
+    delete(joss: Joss): void {
+        joss.deleteForm(formNumber(joss, this.n));
+    }
+
+    source(joss: Joss): string[] {
+        return sourceForm(joss, formNumber(joss, this.n));
+    }
+
+    toString(): string {
+        return `form ${this.n}`;
+    }
+}
+
+class FormulaObject implements MathObject {
+    name: string;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    eval(joss: Joss): string {
+        const formula = joss.variables[this.name];
+        if (!(formula instanceof Formula)) {
+            throw new MissingDefinitionError(`No such formula: ${this.name}`);
+        }
+        return formula.toString();
+    }
+
+    delete(joss: Joss): void {
+        joss.deleteFormula(this.name);
+    }
+
+    source(joss: Joss): string[] {
+        this.eval(joss);
+        return sourceLetter(joss, this.name);
+    }
+
+    toString(): string {
+        return `formula ${this.name}`;
+    }
+}
+
+// A letter, which could have a value, an array or a formula.
+class LetterObject implements MathObject {
+    name: string;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    eval(joss: Joss): string {
+        return listLetter(joss, this.name);
+    }
+
+    delete(joss: Joss): void {
+        joss.deleteLetter(this.name);
+    }
+
+    source(joss: Joss): string[] {
+        return sourceLetter(joss, this.name);
+    }
+
+    toString(): string {
+        return this.name;
+    }
+}
+
+class AllObject implements MathObject {
+    // i.e. all, all steps, all values...
+    what: string | null;
+
+    constructor(what: string | null = null) {
+        this.what = what;
+    }
+
+    static KINDS = ['steps', 'parts', 'forms', 'formulas', 'values'];
+
+    eval(joss: Joss): string {
+        const groups: string[] = [];
+        if (this.what === null || this.what === 'steps' || this.what === 'parts') {
+            groups.push(...sortNumerically(Object.keys(joss.programParts)).map(part => listPart(joss, part)));
+        }
+        if (this.what === null || this.what === 'forms') {
+            groups.push(sortNumerically(Object.keys(joss.forms)).map(n => `Form ${n}:\n${joss.forms[n].template}`).join('\n'));
+        }
+        if (this.what === null || this.what === 'formulas') {
+            groups.push(Object.values(joss.variables).filter(v => v instanceof Formula).join('\n'));
+        }
+        if (this.what === null || this.what === 'values') {
+            const letters = Object.keys(joss.variables).filter(s => !(joss.variables[s] instanceof Formula));
+            groups.push([...letters, ...Object.keys(joss.arrays)].map(s => listLetter(joss, s)).join('\n'));
+        }
+        return groups.filter(g => g !== '').join('\n\n');
+    }
+
+    delete(joss: Joss): void {
+        switch (this.what) {
+            case null:
+                joss.deleteAll();
+                break;
+            case 'steps':
+            case 'parts':
+                joss.deleteProgram();
+                break;
+            case 'forms':
+                joss.deleteForms();
+                break;
+            case 'formulas':
+                joss.deleteFormulas();
+                break;
+            case 'values':
+                joss.deleteValues();
+                break;
+        }
+    }
+
+    source(joss: Joss): string[] {
+        const lines: string[] = [];
+        if (this.what === null || this.what === 'steps' || this.what === 'parts') {
+            lines.push(...sortNumerically(Object.keys(joss.programParts)).flatMap(part => listPart(joss, part).split('\n')));
+        }
+        if (this.what === null || this.what === 'forms') {
+            lines.push(...sortNumerically(Object.keys(joss.forms)).flatMap(n => sourceForm(joss, Number(n))));
+        }
+        if (this.what === null || this.what === 'formulas') {
+            lines.push(...Object.keys(joss.variables).filter(s => joss.variables[s] instanceof Formula).flatMap(s => sourceLetter(joss, s)));
+        }
+        if (this.what === null || this.what === 'values') {
+            const letters = Object.keys(joss.variables).filter(s => !(joss.variables[s] instanceof Formula));
+            lines.push(...[...letters, ...Object.keys(joss.arrays)].flatMap(s => sourceLetter(joss, s)));
+        }
+        return lines;
+    }
+
+    toString(): string {
+        return this.what === null ? 'all' : `all ${this.what}`;
+    }
+}
+
+function parseMathObject(tokens: TokenIterator<Token>): MathObject {
+    const token = tokens.next();
+    switch (token.raw) {
+        case 'step':
+            return new StepObject(Expression.parse(tokens));
+        case 'part':
+            return new PartObject(Expression.parse(tokens));
+        case 'form':
+            return new FormObject(Expression.parse(tokens));
+        case 'formula':
+            return new FormulaObject(expect('formula name', tokens.next(), TokenType.VAR).raw);
+        case 'all':
+            if (AllObject.KINDS.includes(tokens.peek().raw)) {
+                return new AllObject(tokens.next().raw);
+            }
+            return new AllObject();
+        default:
+            return new LetterObject(expectName('something to refer to', token).raw);
+    }
+}
+
+function sortNumerically(keys: string[]): string[] {
+    return keys.sort((a, b) => Number(a) - Number(b));
+}
+
+function listStep(joss: Joss, fullName: string): string {
+    const step = joss.program[fullName];
+    if (!step) {
+        throw new MissingStepError(`No such step: ${fullName}`);
+    }
+    return `${fullName} ${step}.`;
+}
+
+function listPart(joss: Joss, part: string): string {
+    return (joss.programParts[part] ?? []).map(fullName => listStep(joss, fullName)).join('\n');
+}
+
+function listLetter(joss: Joss, s: string): string {
+    const array = joss.arrays[s];
+    if (array) {
+        // As the manual has it, a sparse array says so after its elements.
+        return [
+            ...array.sortedElements().map(({indices, value}) => listValue(joss, `${s}(${indices.join(',')})`, value)),
+            ...array.sparse ? [`${s} is sparse`] : [],
+        ].join('\n');
+    }
+    const v = joss.get(s);
+    return v instanceof Formula ? v.toString() : listValue(joss, s, v);
+}
+
+// A letter set to a function is listed by the function's name, e.g. s = sqrt
+// (though Type s. on its own has no value to show).
+function listValue(joss: Joss, label: string, v: Result): string {
+    const value = v instanceof Function ? functionName(v) ?? formatOther(label, v) : v;
+    if (typeof value === 'string') {
+        return joss.layout === 'terse' ? `${label} = ${value}` : layOut(label, value);
+    }
+    return joss.layout === 'terse' ? `${label} = ${formatValue(label, value)}` : layOut(label, value);
+}
+
+function sourceForm(joss: Joss, n: number): string[] {
+    return [`Form ${n}:`, joss.getForm(n).template];
+}
+
+function sourceLetter(joss: Joss, s: string): string[] {
+    const array = joss.arrays[s];
+    if (array) {
+        return [
+            ...array.sparse ? [`Let ${s} be sparse.`] : [],
+            ...array.sortedElements().map(({indices, value}) => {
+                const label = `${s}(${indices.join(',')})`;
+                return `Set ${label}=${sourceValue(label, value)}.`;
+            }),
+        ];
+    }
+    const v = joss.get(s);
+    if (v instanceof Formula) {
+        return [`${new Let(new VariableExpression(s), v.argNames, v.expression)}.`];
+    }
+    return [`Set ${s}=${sourceValue(s, v)}.`];
+}
+
+// Full precision, and never in e notation (which can't be typed in).
+// A function is stored by its name, e.g. Set s=sqrt.
+function sourceValue(label: string, v: Result): string {
+    if (typeof v === 'boolean') {
+        return `tv(${Number(v)})`;
+    }
+    const name = v instanceof Function ? functionName(v) : null;
+    if (name !== null) {
+        return name;
+    }
+    if (typeof v !== 'number') {
+        // e.g. an element set to a formula with parameters.
+        throw new TypeMismatchError(`I can't store ${label}, which is a formula.`);
+    }
+    const s = String(v);
+    const m = /^(-?)([0-9])(?:[.]([0-9]+))?e([-+][0-9]+)$/.exec(s);
+    if (!m) {
+        return s;
+    }
+    const [, sign, first, rest = '', exponent] = m;
+    const digits = first + rest;
+    const point = 1 + Number(exponent);
+    return point <= 0
+        ? `${sign}.${'0'.repeat(-point)}${digits}`
+        : sign + digits.padEnd(point, '0');
+}
+
+function stepNumber(joss: Joss, e: Expression): string {
+    const n = asNumber(e.eval(joss, {}));
+    if (!(n >= 1 && n < 1e9)) {
+        throw new DomainError('Step number must satisfy 1≤step<10↑9.');
+    }
+    return String(n);
+}
+
+function partNumber(joss: Joss, e: Expression): string {
+    const n = asNumber(e.eval(joss, {}));
+    if (!Number.isInteger(n) || n < 1 || n >= 1e9) {
+        throw new DomainError('Part number must be integer and 1≤part<10↑9.');
+    }
+    return String(n);
+}
+
+function checkFormNumber(n: number): number {
+    if (!Number.isInteger(n) || n < 1 || n >= 1e9) {
+        throw new DomainError('Form number must be integer and 1≤form<10↑9.');
+    }
+    return n;
+}
+
+function formNumber(joss: Joss, e: Expression): number {
+    return checkFormNumber(asNumber(e.eval(joss, {})));
+}
+
 class Type implements Verb {
     expressions: StringExpression[];
+    form: Expression | null;
 
-    constructor(expressions: StringExpression[]) {
+    constructor(expressions: StringExpression[], form: Expression | null = null) {
         this.expressions = expressions;
+        this.form = form;
     }
 
     // ? Can't use TokenType here, because then we have to define _all_ token types for the object...
     static parseDecision: Record<number, (tokens: TokenIterator<Token>) => StringExpression> = {
-        [TokenType.VAR]: Maths.parse,
+        [TokenType.VAR]: (tokens) => ClockReading.isNext(tokens) ? ClockReading.parse(tokens)
+            : DoNesting.isNext(tokens) ? DoNesting.parse(tokens)
+            : ProfileReport.isNext(tokens) ? ProfileReport.parse(tokens)
+            : Maths.parse(tokens),
         [TokenType.NUM]: Maths.parse,
         [TokenType.OP]: Maths.parse,
         [TokenType.STR]: QuotedString.parse,
         [TokenType.OPEN_BRACKET]: Maths.parse,
+        [TokenType.ID]: (tokens) => tokens.peek().raw === 'file' ? FileSummary.parse(tokens) : parseMathObject(tokens),
     };
 
     static parse(tokens: TokenIterator<Token>): Type {
@@ -230,7 +745,7 @@ class Type implements Verb {
             token = tokens.peek();
             const parseFn = this.parseDecision[token.type];
             if (parseFn === undefined) {
-                throw new Error(`Can\'t type ${token.raw}`)
+                throw new ParseError(`Can\'t type ${token.raw}`, token);
             }
             expressions.push(parseFn(tokens));
             token = tokens.peek();
@@ -240,15 +755,36 @@ class Type implements Verb {
             token = tokens.next();
         } while (true);
 
-        return new Type(expressions);
+        if (tokens.peek().raw !== 'in') {
+            return new Type(expressions);
+        }
+        tokens.next();
+        expect('in form', tokens.next(), TokenType.ID, 'form');
+        return new Type(expressions, Expression.parse(tokens));
     }
 
     eval(joss: Joss): void {
+        if (this.form) {
+            const values = this.expressions.map(e => {
+                if (!(e instanceof Maths)) {
+                    throw new JossError('I can\'t express value in your form.');
+                }
+                return asNumber(e.expression.eval(joss, {}));
+            });
+            joss.output(joss.getForm(formNumber(joss, this.form)).format(values));
+            joss.output('\n');
+            return;
+        }
+
         for (const e of this.expressions) {
             joss.output(e.eval(joss));
             joss.output('\n');
         }
     }
+
+    toString(): string {
+        return `Type ${this.expressions.join(', ')}${this.form ? ` in form ${this.form}` : ''}`;
+    }
 }
 
 class Do implements Verb {
@@ -264,36 +800,56 @@ class Do implements Verb {
         this.for = null;
     }
 
-    // i.e. eval without modifier.
-    evalDo(joss: Joss): void {
-        const wasInStoredProgram = joss.inStoredProgram;
-        joss.inStoredProgram = true;
-        try {
-            if (this.step) {
-                joss.getStep(this.part, this.step).eval(joss);
-            } else {
-                for (const step of joss.getPartSteps(this.part)) {
-                    step.eval(joss);
-                }
-            }
-        } finally {
-            joss.inStoredProgram = wasInStoredProgram;
+    eval(joss: Joss): void {
+        if (this.step === null && joss.nextStep(this.part) === null) {
+            throw new MissingStepError(`No such part: ${this.part}`);
+        }
+        if (this.step && !joss.program[`${this.part}.${this.step}`]) {
+            throw new MissingStepError(`No such step: ${this.part}.${this.step}`);
         }
-    }
 
-    eval(joss: Joss): void {
+        let again;
         if (this.times) {
-            for (let i = 0; i < Number(this.times.eval(joss, {})); ++i) {
-                this.evalDo(joss);
+            const times = asNumber(this.times.eval(joss, {}));
+            if (!Number.isInteger(times) || times < 0) {
+                throw new DomainError('Number-of-times must be integer and ≥ 0.');
             }
+            let left = times;
+            again = () => left-- > 0;
         } else if (this.for) {
-            for (const v of this.for.range.eval(joss, {})) {
-                joss.setVariable(this.for.s, v);
-                this.evalDo(joss);
-            }
+            const {s, range} = this.for;
+            const values = range.eval(joss, {})[Symbol.iterator]();
+            again = () => {
+                const {value, done} = values.next();
+                if (!done) {
+                    joss.setVariable(s, value);
+                }
+                return !done;
+            };
         } else {
-            this.evalDo(joss);
+            let once = true;
+            again = () => {
+                const first = once;
+                once = false;
+                return first;
+            };
+        }
+        if (!joss.inStoredProgram) {
+            // Starting again from the top, so forget anything paused (once
+            // we know there's something to start).
+            joss.cancelAll();
+        }
+        joss.doSteps(this.toString(), this.part, this.step && `${this.part}.${this.step}`, this.for?.s ?? null, again);
+    }
+
+    toString(): string {
+        const target = this.step ? `step ${this.part}.${this.step}` : `part ${this.part}`;
+        if (this.times) {
+            return `Do ${target}, ${this.times} times`;
+        } else if (this.for) {
+            return `Do ${target} for ${this.for.s}=${this.for.range}`;
         }
+        return `Do ${target}`;
     }
 
     static parse(tokens: TokenIterator<Token>): Do {
@@ -302,20 +858,20 @@ class Do implements Verb {
             case 'step':
                 token = tokens.next();
                 if (!token.raw.includes('.')) {
-                    throw new Error('Invalid step (i.e. must be 1.1, not 1)');
+                    throw new ParseError('Invalid step (i.e. must be 1.1, not 1)');
                 }
                 break;
             case 'part':
                 token = tokens.next();
                 if (token.raw.includes('.')) {
-                    throw new Error('Invalid part (i.e. must be 1, not 1.1)');
+                    throw new ParseError('Invalid part (i.e. must be 1, not 1.1)');
                 }
                 break;
             default:
-                throw new Error('Expecting step or part after Do');
+                throw new ParseError('Expecting step or part after Do');
         }
 
-        const [part, step] = token.raw.split('.');
+        const [part, step] = String(Number(token.raw)).split('.');
         const doVerb = new Do(part, step || null);
 
         // Add possible modifier.
@@ -350,16 +906,13 @@ class To implements Verb {
 
     eval(joss: Joss): void {
         if (!joss.inStoredProgram) {
-            throw new Error('To command can only be used in stored programs');
+            throw new JossError('To command can only be used in stored programs');
         }
-        if (this.step) {
-            joss.getStep(this.part, this.step).eval(joss);
-        } else {
-            for (const step of joss.getPartSteps(this.part)) {
-                step.eval(joss);
-            }
-        }
-        throw new TerminateProgramException();
+        joss.jump(this.part, this.step);
+    }
+
+    toString(): string {
+        return this.step ? `To step ${this.part}.${this.step}` : `To part ${this.part}`;
     }
 
     static parse(tokens: TokenIterator<Token>): To {
@@ -372,46 +925,654 @@ class To implements Verb {
                 token = expect('part number', tokens.next(), TokenType.NUM);
                 break;
             default:
-                throw new Error('Expecting step or part after To');
+                throw new ParseError('Expecting step or part after To');
         }
-        const [part, step] = token.raw.split('.');
+        const [part, step] = String(Number(token.raw)).split('.');
         return new To(part, step || null);
     }
 }
 
-class StoredCommand {
-    part: string;
-    step: string;
-    command: Command;
+class Demand implements Verb {
+    target: VariableExpression;
+    label: string | null;
 
-    constructor(part: string, step: string, command: Command) {
-        this.part = part;
-        this.step = step;
-        this.command = command;
+    constructor(target: VariableExpression, label: string | null = null) {
+        this.target = target;
+        this.label = label;
     }
 
     eval(joss: Joss): void {
-        joss.setStep(this.part, this.step, this.command);
-    }
-
-    static parse(tokens: TokenIterator<Token>): StoredCommand {
-        const token = tokens.next();
-        if (!token.raw.includes('.')) {
-            throw new Error('Line number without step (i.e. must be 1.1, not 1)');
+        if (!joss.inStoredProgram) {
+            throw new JossError('Demand command can only be used in stored programs');
         }
-        const [part, step] = token.raw.split('.');
-        return new StoredCommand(part, step, Command.parse(tokens));
-    }
-}
 
-function parse(tokens: TokenIterator<Token>): Command|StoredCommand {
-    if (tokens.peek().type === TokenType.NUM) {
-        const sc = StoredCommand.parse(tokens);
-        expect('End of command', tokens.next(), TokenType.PERIOD);
-        return sc;
-    } else {
-        const command = Command.parse(tokens);
+        const prompt = this.label ?? this.target.describe(joss);
+        while (true) {
+            joss.output(`${prompt} = `);
+            const reply = joss.stdin.readLine();
+            if (reply !== null) {
+                joss.paper.typed();
+            }
+            if (reply === null || reply.trim() === '') {
+                // Just hitting return is an interrupt; Go asks again.
+                joss.output(`I'm at step ${joss.currentStep}.\n`);
+                joss.interrupt();
+                return;
+            }
+            if (reply.trim().endsWith('*')) {
+                // The user threw the line away, so ask again.
+                continue;
+            }
+
+            let value;
+            try {
+                const tokens = tokenise(reply);
+                const expression = Expression.parse(tokens);
+                expect('End of reply', tokens.next(), TokenType.END);
+                value = expression.eval(joss, {});
+            } catch (e) {
+                if (e instanceof JossError && !(e instanceof LimitError)) {
+                    joss.output(`${e.describe()}\n`);
+                    continue;
+                }
+                throw e;
+            }
+            this.target.eval_set(joss, value);
+            return;
+        }
+    }
+
+    toString(): string {
+        return `Demand ${this.target}${this.label === null ? '' : ` as "${this.label}"`}`;
+    }
+
+    static parse(tokens: TokenIterator<Token>): Demand {
+        expectSettable('variable to demand', tokens.peek());
+        const target = VariableExpression.parse(tokens);
+        if (tokens.peek().raw !== 'as') {
+            return new Demand(target);
+        }
+        tokens.next();
+        const token = expect('text to demand value as', tokens.next(), TokenType.STR);
+        return new Demand(target, token.raw.slice(1, -1));
+    }
+}
+
+class FormDefinition {
+    n: number;
+
+    constructor(n: number) {
+        this.n = n;
+    }
+
+    eval(joss: Joss): void {
+        joss.pendingForm = this.n;
+    }
+
+    static parse(tokens: TokenIterator<Token>): FormDefinition {
+        expect('Form', tokens.next(), TokenType.ID, 'Form');
+        const n = checkFormNumber(Number(expect('form number', tokens.next(), TokenType.NUM).raw));
+        expect('after form number', tokens.next(), TokenType.COLON);
+        expect('form definition', tokens.next(), TokenType.END);
+        return new FormDefinition(n);
+    }
+}
+
+class Delete implements Verb {
+    objects: MathObject[];
+
+    constructor(objects: MathObject[]) {
+        this.objects = objects;
+    }
+
+    eval(joss: Joss): void {
+        for (const o of this.objects) {
+            o.delete(joss);
+        }
+    }
+
+    toString(): string {
+        return `Delete ${this.objects.join(', ')}`;
+    }
+
+    static parse(tokens: TokenIterator<Token>): Delete | DeleteItem {
+        if (tokens.peek().type === TokenType.STR) {
+            return new DeleteItem(parseItemName(tokens));
+        }
+        const objects = [parseMathObject(tokens)];
+        while (tokens.peek().type === TokenType.COMMA) {
+            tokens.next();
+            objects.push(parseMathObject(tokens));
+        }
+        return new Delete(objects);
+    }
+}
+
+// Items in your file are referred to as e.g. "loan".
+function parseItemName(tokens: TokenIterator<Token>): string {
+    return expect('item name', tokens.next(), TokenType.STR).raw.slice(1, -1);
+}
+
+class Store implements Verb {
+    objects: MathObject[];
+    name: string;
+    replacing: boolean;
+
+    constructor(objects: MathObject[], name: string, replacing: boolean) {
+        this.objects = objects;
+        this.name = name;
+        this.replacing = replacing;
+    }
+
+    eval(joss: Joss): void {
+        const lines = this.objects.flatMap(o => o.source(joss));
+        joss.getFile().store(this.name, lines, this.replacing);
+        joss.output('Done.\n');
+    }
+
+    toString(): string {
+        return `Store ${this.objects.join(', ')} ${this.replacing ? 'replacing' : 'as'} "${this.name}"`;
+    }
+
+    static parse(tokens: TokenIterator<Token>): Store {
+        const objects = [parseMathObject(tokens)];
+        while (tokens.peek().type === TokenType.COMMA) {
+            tokens.next();
+            objects.push(parseMathObject(tokens));
+        }
+        const token = expect('as or replacing', tokens.next(), TokenType.ID);
+        if (token.raw !== 'as' && token.raw !== 'replacing') {
+            throw new ParseError(`Expecting as or replacing, got ${token.raw}`, token);
+        }
+        return new Store(objects, parseItemName(tokens), token.raw === 'replacing');
+    }
+}
+
+class Get implements Verb {
+    name: string;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    // As if the item were typed in, line by line, except that the first
+    // line to fail stops it (and it isn't Done).
+    eval(joss: Joss): void {
+        joss.load(joss.getFile().get(this.name));
+        joss.output('Done.\n');
+    }
+
+    toString(): string {
+        return `Get "${this.name}"`;
+    }
+
+    static parse(tokens: TokenIterator<Token>): Get {
+        return new Get(parseItemName(tokens));
+    }
+}
+
+class DeleteItem implements Verb {
+    name: string;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    eval(joss: Joss): void {
+        joss.getFile().delete(this.name);
+        joss.output('Done.\n');
+    }
+
+    toString(): string {
+        return `Delete "${this.name}"`;
+    }
+}
+
+class FileSummary implements StringExpression {
+    eval(joss: Joss): string {
+        return joss.getFile().summary();
+    }
+
+    toString(): string {
+        return 'file summary';
+    }
+
+    static parse(tokens: TokenIterator<Token>): FileSummary {
+        expect('file summary', tokens.next(), TokenType.ID, 'file');
+        expect('file summary', tokens.next(), TokenType.VAR, 'summary');
+        return new FileSummary();
+    }
+}
+
+const CLOCK_READINGS: Record<string, (now: Date) => string> = {
+    time: formatTime,
+    date: formatDate,
+};
+
+// Type time. or Type date. (rather than a variable called time).
+class ClockReading implements StringExpression {
+    name: string;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+
+    eval(joss: Joss): string {
+        const reading = CLOCK_READINGS[this.name](joss.clock.now());
+        return joss.layout === 'terse' ? reading : readOut(this.name, reading);
+    }
+
+    toString(): string {
+        return this.name;
+    }
+
+    static isNext(tokens: TokenIterator<Token>): boolean {
+        const following = tokens.peek(1).type;
+        return CLOCK_READINGS[tokens.peek().raw] !== undefined
+            && following !== TokenType.OP && following !== TokenType.OPEN_BRACKET;
+    }
+
+    static parse(tokens: TokenIterator<Token>): ClockReading {
+        return new ClockReading(tokens.next().raw);
+    }
+}
+
+class Reset implements Verb {
+    eval(joss: Joss): void {
+        joss.resetTimer();
+    }
+
+    toString(): string {
+        return 'Reset timer';
+    }
+
+    static parse(tokens: TokenIterator<Token>): Reset {
+        expect('Reset timer', tokens.next(), TokenType.VAR, 'timer');
+        return new Reset();
+    }
+}
+
+class Line implements Verb {
+    eval(joss: Joss): void {
+        joss.paper.newLine();
+    }
+
+    toString(): string {
+        return 'Line';
+    }
+}
+
+class Page implements Verb {
+    eval(joss: Joss): void {
+        joss.paper.newPage();
+    }
+
+    toString(): string {
+        return 'Page';
+    }
+}
+
+class Head implements Verb {
+    eval(joss: Joss): void {
+        joss.paper.headPage();
+    }
+
+    toString(): string {
+        return 'Head';
+    }
+}
+
+// Trace on. (or off): show each step as it's run.
+class Trace implements Verb {
+    on: boolean;
+
+    constructor(on: boolean) {
+        this.on = on;
+    }
+
+    eval(joss: Joss): void {
+        joss.debug.trace = this.on;
+    }
+
+    toString(): string {
+        return `Trace ${this.on ? 'on' : 'off'}`;
+    }
+
+    static parse(tokens: TokenIterator<Token>): Trace {
+        return new Trace(parseOnOff(tokens, 'Trace'));
+    }
+}
+
+// e.g. Trace on. (true) or Trace off.
+function parseOnOff(tokens: TokenIterator<Token>, verb: string): boolean {
+    const token = expect(`${verb} on or off`, tokens.next(), TokenType.VAR);
+    if (token.raw !== 'on' && token.raw !== 'off') {
+        throw new ParseError(`Expecting on or off, got ${token.raw}`, token);
+    }
+    return token.raw === 'on';
+}
+
+// Profile on. (starting afresh) or off.
+class Profile implements Verb {
+    on: boolean;
+
+    constructor(on: boolean) {
+        this.on = on;
+    }
+
+    eval(joss: Joss): void {
+        if (this.on) {
+            joss.profiler.reset();
+        }
+        joss.profiler.enabled = this.on;
+    }
+
+    toString(): string {
+        return `Profile ${this.on ? 'on' : 'off'}`;
+    }
+
+    static parse(tokens: TokenIterator<Token>): Profile {
+        return new Profile(parseOnOff(tokens, 'Profile'));
+    }
+}
+
+// Type profile.: what each step has cost, costliest first.
+class ProfileReport implements StringExpression {
+    eval(joss: Joss): string {
+        return joss.profiler.report();
+    }
+
+    toString(): string {
+        return 'profile';
+    }
+
+    static isNext(tokens: TokenIterator<Token>): boolean {
+        const following = tokens.peek(1).type;
+        return tokens.peek().raw === 'profile' && following !== TokenType.OP && following !== TokenType.OPEN_BRACKET;
+    }
+
+    static parse(tokens: TokenIterator<Token>): ProfileReport {
+        tokens.next();
+        return new ProfileReport();
+    }
+}
+
+// e.g. Break at step 1.2., Break at step 1.2 if n>3., Break if n>3.
+class Break implements Verb {
+    step: string | null;
+    condition: Expression | null;
+
+    constructor(step: string | null, condition: Expression | null) {
+        this.step = step;
+        this.condition = condition;
+    }
+
+    eval(joss: Joss): void {
+        joss.debug.addBreakpoint(this.step, this.condition);
+    }
+
+    toString(): string {
+        return ['Break', this.step && `at step ${this.step}`, this.condition && `if ${this.condition}`].filter(Boolean).join(' ');
+    }
+
+    static parse(tokens: TokenIterator<Token>): Break | BreakOff {
+        if (tokens.peek().raw === 'off') {
+            tokens.next();
+            return new BreakOff();
+        }
+        let step = null;
+        if (tokens.peek().raw === 'at') {
+            tokens.next();
+            expect('Break at step', tokens.next(), TokenType.ID, 'step');
+            const token = expect('step number', tokens.next(), TokenType.NUM);
+            if (!token.raw.includes('.')) {
+                throw new ParseError('Invalid step (i.e. must be 1.1, not 1)', token);
+            }
+            step = String(Number(token.raw));
+        }
+        // The breakpoint's condition, rather than the command's.
+        let condition = null;
+        if (tokens.peek().raw === 'if') {
+            tokens.next();
+            condition = Expression.parse(tokens);
+        }
+        if (step === null && condition === null) {
+            throw new ParseError('Expecting at step or if after Break', tokens.peek());
+        }
+        return new Break(step, condition);
+    }
+}
+
+class BreakOff implements Verb {
+    eval(joss: Joss): void {
+        joss.debug.removeBreakpoints();
+    }
+
+    toString(): string {
+        return 'Break off';
+    }
+}
+
+// Step. (or Step over.): Go, as far as the next step.
+class SingleStep implements Verb {
+    over: boolean;
+
+    constructor(over: boolean) {
+        this.over = over;
+    }
+
+    eval(joss: Joss): void {
+        if (joss.inStoredProgram) {
+            throw new JossError('Step command can only be used directly');
+        }
+        joss.singleStep(this.over);
+    }
+
+    toString(): string {
+        return this.over ? 'Step over' : 'Step';
+    }
+
+    static parse(tokens: TokenIterator<Token>): SingleStep {
+        if (tokens.peek().raw !== 'over') {
+            return new SingleStep(false);
+        }
+        tokens.next();
+        return new SingleStep(true);
+    }
+}
+
+// Type nesting.: the Dos in progress, e.g.
+// Do part 6 for i=1(1)3: at step 6.1, i = 2
+class DoNesting implements StringExpression {
+    eval(joss: Joss): string {
+        const nesting = joss.nesting();
+        if (nesting.length === 0) {
+            return 'I have nothing to do.';
+        }
+        return nesting.map(({label, at, variable, value}) => [
+            `${label}: ${at === null ? 'between times around' : `at step ${at}`}`,
+            ...(variable === null || value === undefined ? [] : [`${variable} = ${formatValue(variable, value)}`]),
+        ].join(', ')).join('\n');
+    }
+
+    toString(): string {
+        return 'nesting';
+    }
+
+    static isNext(tokens: TokenIterator<Token>): boolean {
+        const following = tokens.peek(1).type;
+        return tokens.peek().raw === 'nesting' && following !== TokenType.OP && following !== TokenType.OPEN_BRACKET;
+    }
+
+    static parse(tokens: TokenIterator<Token>): DoNesting {
+        tokens.next();
+        return new DoNesting();
+    }
+}
+
+// Check. (the program) or Check "item". (without getting it).
+class Check implements Verb {
+    name: string | null;
+
+    constructor(name: string | null = null) {
+        this.name = name;
+    }
+
+    eval(joss: Joss): void {
+        const diagnostics = this.name === null ? check(joss) : checkSource(joss, joss.getFile().get(this.name));
+        if (diagnostics.length === 0) {
+            joss.output('No problems found.\n');
+        }
+        for (const d of diagnostics) {
+            joss.output(`${describeDiagnostic(d)}\n`);
+        }
+    }
+
+    toString(): string {
+        return this.name === null ? 'Check' : `Check "${this.name}"`;
+    }
+
+    static parse(tokens: TokenIterator<Token>): Check {
+        return new Check(tokens.peek().type === TokenType.STR ? parseItemName(tokens) : null);
+    }
+}
+
+class Done implements Verb {
+    eval(joss: Joss): void {
+        if (!joss.inStoredProgram) {
+            throw new JossError('Done command can only be used in stored programs');
+        }
+        joss.done();
+    }
+
+    toString(): string {
+        return 'Done';
+    }
+}
+
+class Quit implements Verb {
+    eval(joss: Joss): void {
+        if (joss.inStoredProgram) {
+            joss.quitDo();
+        } else {
+            joss.quit();
+        }
+    }
+
+    toString(): string {
+        return 'Quit';
+    }
+}
+
+class Stop implements Verb {
+    eval(joss: Joss): void {
+        if (!joss.inStoredProgram) {
+            throw new JossError('Stop command can only be used in stored programs');
+        }
+        joss.output(`Stopped by step ${joss.currentStep}.\n`);
+        joss.pause();
+    }
+
+    toString(): string {
+        return 'Stop';
+    }
+}
+
+class Go implements Verb {
+    eval(joss: Joss): void {
+        if (joss.inStoredProgram) {
+            throw new JossError('Go command can only be used directly');
+        }
+        joss.go();
+    }
+
+    toString(): string {
+        return 'Go';
+    }
+}
+
+class Cancel implements Verb {
+    eval(joss: Joss): void {
+        if (joss.inStoredProgram) {
+            throw new JossError('Cancel command can only be used directly');
+        }
+        joss.cancel();
+    }
+
+    toString(): string {
+        return 'Cancel';
+    }
+}
+
+class StoredCommand {
+    part: string;
+    step: string;
+    command: Command;
+
+    constructor(part: string, step: string, command: Command) {
+        this.part = part;
+        this.step = step;
+        this.command = command;
+    }
+
+    eval(joss: Joss): void {
+        joss.setStep(this.part, this.step, this.command);
+    }
+
+    static parse(tokens: TokenIterator<Token>): StoredCommand {
+        const token = tokens.next();
+        if (!token.raw.includes('.')) {
+            throw new ParseError('Line number without step (i.e. must be 1.1, not 1)');
+        }
+        const [part, step] = String(Number(token.raw)).split('.');
+        return new StoredCommand(part, step, Command.parse(tokens));
+    }
+}
+
+// e.g. (Type x.), run without disturbing whatever is paused.
+class ParentheticCommand {
+    command: Command;
+
+    constructor(command: Command) {
+        this.command = command;
+    }
+
+    eval(joss: Joss): void {
+        joss.runParenthetic(() => this.command.eval(joss));
+    }
+
+    toString(): string {
+        return `(${this.command}.)`;
+    }
+
+    static parse(tokens: TokenIterator<Token>): ParentheticCommand {
+        expect('Parenthetic command', tokens.next(), TokenType.OPEN_BRACKET, '(');
+        const command = Command.parse(tokens);
         expect('End of command', tokens.next(), TokenType.PERIOD);
+        expect('End of parenthetic command', tokens.next(), TokenType.CLOSE_BRACKET, ')');
+        return new ParentheticCommand(command);
+    }
+}
+
+function parse(tokens: TokenIterator<Token>): Command|StoredCommand|FormDefinition|ParentheticCommand {
+    let command;
+    if (tokens.peek().type === TokenType.END) {
+        // Blank (or commented out) lines need no period.
+        return new Command(new NoOp());
+    } else if (tokens.peek().raw === 'Form') {
+        // The form itself is on the next line, so there's no period here.
+        return FormDefinition.parse(tokens);
+    } else if (tokens.peek().raw === '(') {
+        // The period is inside the brackets.
+        command = ParentheticCommand.parse(tokens);
+        expect('Nothing after end of command', tokens.next(), TokenType.END);
         return command;
+    } else if (tokens.peek().type === TokenType.NUM) {
+        command = StoredCommand.parse(tokens);
+    } else {
+        command = Command.parse(tokens);
     }
+    expect('End of command', tokens.next(), TokenType.PERIOD);
+    expect('Nothing after end of command', tokens.next(), TokenType.END);
+    return command;
 }
@@ -0,0 +1,88 @@
+export {Debugger};
+export type {Breakpoint, Nesting};
+
+import type { Joss, Result } from './joss.ts';
+import { Expression, asTruth } from './expression.ts';
+import { JossError } from './exceptions.ts';
+
+// Stop before a step (any step, if null), perhaps only when the condition holds.
+interface Breakpoint {
+    step: string | null;
+    condition: Expression | null;
+}
+
+// One Do in progress, as seen from outside.
+interface Nesting {
+    // e.g. Do part 6 for i=1(1)3
+    label: string;
+    // The step it's at, or null between times around.
+    at: string | null;
+    // Its for variable (if it has one), and that's value now.
+    variable: string | null;
+    value: Result | undefined;
+}
+
+// Breakpoints, single-stepping and tracing, which the Joss asks about
+// before running each step.
+class Debugger {
+    breakpoints: Breakpoint[];
+    trace: boolean;
+    // Single-stepping: stop at the next step run at most this many Dos deep.
+    stepDepth: number | null;
+    // Where we've just carried on from, which mustn't stop us again.
+    resumingAt: string | null;
+    // Called before each step is run, e.g. to look at joss.nesting().
+    onStep: ((joss: Joss, step: string) => void) | null;
+
+    constructor() {
+        this.breakpoints = [];
+        this.trace = false;
+        this.stepDepth = null;
+        this.resumingAt = null;
+        this.onStep = null;
+    }
+
+    addBreakpoint(step: string | null, condition: Expression | null = null) {
+        this.breakpoints.push({step, condition});
+    }
+
+    removeBreakpoints(step: string | null = null) {
+        this.breakpoints = step === null ? [] : this.breakpoints.filter(b => b.step !== step);
+    }
+
+    // Before running a step (depth Dos deep): what to say if we're to stop there.
+    before(joss: Joss, step: string, depth: number): string | null {
+        const resuming = this.resumingAt === step;
+        this.resumingAt = null;
+        if (!resuming) {
+            if (this.stepDepth !== null && depth <= this.stepDepth) {
+                this.stepDepth = null;
+                return `I'm at step ${step}.`;
+            }
+            if (this.breakpoints.some(b => (b.step === null || b.step === step) && Debugger.holds(joss, b.condition))) {
+                return `Break at step ${step}.`;
+            }
+        }
+
+        if (this.trace) {
+            joss.output(`(step ${step})\n`);
+        }
+        this.onStep?.(joss, step);
+        return null;
+    }
+
+    // A condition that can't be worked out (yet) doesn't stop anything.
+    private static holds(joss: Joss, condition: Expression | null): boolean {
+        if (condition === null) {
+            return true;
+        }
+        try {
+            return asTruth(condition.eval(joss, {}));
+        } catch (e) {
+            if (e instanceof JossError) {
+                return false;
+            }
+            throw e;
+        }
+    }
+}
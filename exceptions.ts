@@ -1,2 +1,92 @@
-export class TerminateProgramException extends Error {
-}
\ No newline at end of file
+// Where in the command (or step) something is, as offsets into what was typed.
+export interface Span {
+    start: number;
+    end: number;
+}
+
+// Errors the user can cause (and fix). Where it happened is filled in
+// on the way back up, so describe() can say as JOSS does, e.g.
+// Error at step 1.1:    x = ???
+export class JossError extends Error {
+    step: string | null = null;
+    formula: string | null = null;
+    span: Span | null;
+
+    constructor(message: string, span: Span | null = null) {
+        super(message);
+        this.name = new.target.name;
+        this.span = span;
+    }
+
+    describe(): string {
+        const where = [
+            this.formula === null ? '' : ` in formula ${this.formula}`,
+            this.step === null ? '' : ` at step ${this.step}`,
+        ].join('');
+        return where === '' ? this.text() : `Error${where}:    ${this.text()}`;
+    }
+
+    // What's said about the error itself.
+    protected text(): string {
+        return this.message;
+    }
+}
+
+// The line couldn't be understood at all, which JOSS answers with 'Eh?'.
+export class ParseError extends JossError {
+    protected text(): string {
+        return 'Eh?';
+    }
+}
+
+// One of the language's own words (e.g. part, or file) used as a name,
+// which gets more than an 'Eh?' as it's an easy mistake to make.
+export class ReservedWordError extends ParseError {
+    protected text(): string {
+        return this.message;
+    }
+}
+
+// A letter (or array element) that hasn't been given a value.
+export class UndefinedValueError extends JossError {
+    constructor(what: string, span: Span | null = null) {
+        super(`${what} = ???`, span);
+    }
+}
+
+// Indexing an array with the wrong number of indices.
+export class DimensionError extends JossError {
+}
+
+// The wrong number of arguments (or parameters) for a formula.
+export class ArityError extends JossError {
+}
+
+// A value outside what's allowed, e.g. sqrt(-1), or a step number of 0.
+export class DomainError extends JossError {
+}
+
+// Do (or Type) of a step or part that isn't there.
+export class MissingStepError extends JossError {
+}
+
+// Use of a form or formula that isn't there.
+export class MissingDefinitionError extends JossError {
+}
+
+// A number where a truth value's needed, or the other way round (or a formula for either).
+export class TypeMismatchError extends JossError {
+}
+
+// One of the limits whoever's running us set (see budget.ts) was reached.
+// Unlike other errors, the computation is abandoned rather than paused.
+export type Limit = 'steps' | 'time' | 'depth' | 'cells' | 'abort';
+
+export class LimitError extends JossError {
+    limit: Limit;
+
+    constructor(limit: Limit, message: string) {
+        super(message);
+        this.limit = limit;
+    }
+}
@@ -1,32 +1,130 @@
-export { Expression, VariableExpression, ValueRange };
+export { Expression, VariableExpression, ValueRange, Formula, asNumber, asTruth };
 
 import { Token, TokenType, TokenIterator } from './tokenise.ts';
 import { Joss, Result } from './joss.ts';
-import { expect } from './parse_helpers.ts';
+import { expect, expectName } from './parse_helpers.ts';
+import { ArityError, DimensionError, DomainError, JossError, ParseError, Span, TypeMismatchError, UndefinedValueError } from './exceptions.ts';
+import { Numeric } from './numeric.ts';
 
 interface BinaryOperator {
     prec: number;
     fn: (a: Result, b: Result) => Result;
+    // i.e. chains, so 1≤x<3 is 1≤x and x<3
+    relation?: boolean;
 }
 
+const RELATION_PRECEDENCE = 3;
+const POWER_PRECEDENCE = 6;
+
+// JOSS keeps numbers and truth values apart; tv() converts between them.
+function asNumber(v: Result): number {
+    if (typeof v !== 'number') {
+        throw new TypeMismatchError(`I can't use ${describeKind(v)} as a number.`);
+    }
+    return v;
+}
+
+function asTruth(v: Result): boolean {
+    if (typeof v !== 'boolean') {
+        throw new TypeMismatchError(`I can't use ${describeKind(v)} as a truth value.`);
+    }
+    return v;
+}
+
+// Numbers are kept to whatever precision and range the backend allows.
+function rounded(joss: Joss, v: Result): Result {
+    return typeof v === 'number' ? joss.numeric.round(v) : v;
+}
+
+function describeKind(v: Result): string {
+    switch (typeof v) {
+        case 'number':
+            return 'a number';
+        case 'boolean':
+            return 'a truth value';
+        default:
+            return 'a formula';
+    }
+}
+
+const CLOSING_BRACKETS: Record<string, string> = {'(': ')', '[': ']'};
+
 class ConditionalExpression implements Expression {
     conditionResults: {condition: Expression, result: Expression}[] = [];
     result: Expression;
+    bracket: string;
     
-    constructor(conditionResults: {condition: Expression, result: Expression}[], result: Expression) {
+    constructor(conditionResults: {condition: Expression, result: Expression}[], result: Expression, bracket: string = '[') {
         this.result = result;
         this.conditionResults = conditionResults;
+        this.bracket = bracket;
     }
 
     eval(joss: Joss, fnArgs: Record<string, Result>): Result {
         for (const {condition, result} of this.conditionResults) {
-            if (Boolean(condition.eval(joss, fnArgs))) {
+            if (asTruth(condition.eval(joss, fnArgs))) {
                 return result.eval(joss, fnArgs);
             }
         }
 
         return this.result.eval(joss, fnArgs);
     }
+
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return [
+            ...this.conditionResults.flatMap(({condition, result}) => [...condition.reads(bound), ...result.reads(bound)]),
+            ...this.result.reads(bound),
+        ];
+    }
+
+    toString(): string {
+        const conditions = this.conditionResults.map(({condition, result}) => `${condition}:${result}; `).join('');
+        return `${this.bracket}${conditions}${this.result}${CLOSING_BRACKETS[this.bracket]}`;
+    }
+}
+
+// Brackets the user wrote (which we keep so the program reads back the same).
+class GroupExpression implements Expression {
+    expr: Expression;
+    bracket: string;
+
+    constructor(expr: Expression, bracket: string) {
+        this.expr = expr;
+        this.bracket = bracket;
+    }
+
+    eval(joss: Joss, fnArgs: Record<string, Result>): Result {
+        return this.expr.eval(joss, fnArgs);
+    }
+
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return this.expr.reads(bound);
+    }
+
+    toString(): string {
+        return `${this.bracket}${this.expr}${CLOSING_BRACKETS[this.bracket]}`;
+    }
+}
+
+// |x|
+class AbsoluteExpression implements Expression {
+    expr: Expression;
+
+    constructor(expr: Expression) {
+        this.expr = expr;
+    }
+
+    eval(joss: Joss, fnArgs: Record<string, Result>): Result {
+        return Math.abs(asNumber(this.expr.eval(joss, fnArgs)));
+    }
+
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return this.expr.reads(bound);
+    }
+
+    toString(): string {
+        return `|${this.expr}|`;
+    }
 }
 
 class NegationExpression implements Expression {
@@ -37,13 +135,47 @@ class NegationExpression implements Expression {
     }
 
     eval(joss: Joss, fnArgs: Record<string, Result>): Result {
-        return -Number(this.expr.eval(joss, fnArgs));
+        return -asNumber(this.expr.eval(joss, fnArgs));
+    }
+
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return this.expr.reads(bound);
+    }
+
+    toString(): string {
+        return `-${this.expr}`;
+    }
+}
+
+class NotExpression implements Expression {
+    expr: Expression;
+
+    constructor(expr: Expression) {
+        this.expr = expr;
+    }
+
+    eval(joss: Joss, fnArgs: Record<string, Result>): Result {
+        return !asTruth(this.expr.eval(joss, fnArgs));
+    }
+
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return this.expr.reads(bound);
+    }
+
+    toString(): string {
+        return `not ${this.expr}`;
     }
 }
 
 abstract class Expression {
     abstract eval(joss: Joss, fnArgs: Record<string, Result>): Result;
 
+    // The letters it uses, other than those bound (e.g. a formula's parameters).
+    abstract reads(bound: ReadonlySet<string>): VariableExpression[];
+
+    // i.e. the expression as it would be typed in.
+    abstract toString(): string;
+
     static parse(tokens: TokenIterator<Token>): Expression {
         return this.parse_binary(tokens, this.parse_unary(tokens));
     }
@@ -55,13 +187,31 @@ abstract class Expression {
             case TokenType.NUM:
                 return NumberExpression.parse(tokens);
             case TokenType.VAR:
+                if (RangeFunctionExpression.isNext(tokens)) {
+                    return RangeFunctionExpression.parse(tokens);
+                }
+                return VariableExpression.parse(tokens);
+            case TokenType.ID:
+                // Which can't be a name (as VariableExpression says).
                 return VariableExpression.parse(tokens);
             case TokenType.OP:
                 if (token.raw === '-') {
                     tokens.next(); // consume the minus
-                    return new NegationExpression(this.parse_unary(tokens));
+                    // -2↑2 is -4, i.e. only exponentiation binds more tightly.
+                    return new NegationExpression(this.parse_binary(tokens, this.parse_unary(tokens), POWER_PRECEDENCE));
+                }
+                if (token.raw === 'not') {
+                    tokens.next();
+                    // not x<3 and y<3 is (not x<3) and y<3
+                    return new NotExpression(this.parse_binary(tokens, this.parse_unary(tokens), RELATION_PRECEDENCE));
+                }
+                if (token.raw === '|') {
+                    tokens.next();
+                    const expr = Expression.parse(tokens);
+                    expect('end of absolute value', tokens.next(), TokenType.OP, '|');
+                    return new AbsoluteExpression(expr);
                 }
-                throw new Error(`Unexpected operator in unary position: got '${token.raw}'`);
+                throw new ParseError(`Unexpected operator in unary position: got '${token.raw}'`, token);
             case TokenType.OPEN_BRACKET: {
                 const conditionResults: {condition: Expression, result: Expression}[] = [];
                 tokens.next();
@@ -74,34 +224,57 @@ abstract class Expression {
                     expect('expression for default condition', tokens.next(), TokenType.SEMICOLON);
                     result = Expression.parse(tokens);
                 }
-                expect('Invalid parenthesis', tokens.next(), TokenType.CLOSE_BRACKET, token.raw === '[' ? ']' : ')');
+                expect('Invalid parenthesis', tokens.next(), TokenType.CLOSE_BRACKET, CLOSING_BRACKETS[token.raw]);
 
                 if (conditionResults.length > 0) {
-                    return new ConditionalExpression(conditionResults, result);
+                    return new ConditionalExpression(conditionResults, result, token.raw);
                 } else {
-                    return result;
+                    return new GroupExpression(result, token.raw);
                 }
             }
             default:
-                throw new Error(`Unexpected token in numeric expression: got '${token.raw}'`);
+                throw new ParseError(`Unexpected token in numeric expression: got '${token.raw}'`, token);
         }
     }
 
-    // TODO error out on conversions (replace with assert);
-    // operator precedence.
     static BINARY_OPERATORS: Record<string, BinaryOperator> = {
-        'or': {prec: 0, fn: (a, b) => Boolean(a) && Boolean(b)},
-        'and': {prec: 1, fn: (a, b) => Boolean(a) && Boolean(b)},
-        '=': {prec: 2, fn: (a, b) => a == b},
-        '!=': {prec: 2, fn: (a, b) => a != b},
-        '<': {prec: 3, fn: (a, b) => Number(a) < Number(b)},
-        '>': {prec: 3, fn: (a, b) => Number(a) > Number(b)},
-        '<=': {prec: 3, fn: (a, b) => Number(a) <= Number(b)},
-        '>=': {prec: 3, fn: (a, b) => Number(a) >= Number(b)},
-        '+': {prec: 4, fn: (a, b) => Number(a) + Number(b)},
-        '-': {prec: 4, fn: (a, b) => Number(a) - Number(b)},
-        '/': {prec: 5, fn: (a, b) => Number(a) / Number(b)},
-        '*': {prec: 5, fn: (a, b) => Number(a) * Number(b)},
+        'or': {prec: 1, fn: (a, b) => asTruth(a) || asTruth(b)},
+        'and': {prec: 2, fn: (a, b) => asTruth(a) && asTruth(b)},
+        '=': {prec: RELATION_PRECEDENCE, fn: (a, b) => asNumber(a) === asNumber(b), relation: true},
+        '≠': {prec: RELATION_PRECEDENCE, fn: (a, b) => asNumber(a) !== asNumber(b), relation: true},
+        '<': {prec: RELATION_PRECEDENCE, fn: (a, b) => asNumber(a) < asNumber(b), relation: true},
+        '>': {prec: RELATION_PRECEDENCE, fn: (a, b) => asNumber(a) > asNumber(b), relation: true},
+        '≤': {prec: RELATION_PRECEDENCE, fn: (a, b) => asNumber(a) <= asNumber(b), relation: true},
+        '≥': {prec: RELATION_PRECEDENCE, fn: (a, b) => asNumber(a) >= asNumber(b), relation: true},
+        '+': {prec: 4, fn: (a, b) => asNumber(a) + asNumber(b)},
+        '-': {prec: 4, fn: (a, b) => asNumber(a) - asNumber(b)},
+        '/': {prec: 5, fn: (a, b) => {
+            if (asNumber(b) === 0) {
+                throw new DomainError('Please don\'t divide by zero.');
+            }
+            return asNumber(a) / asNumber(b);
+        }},
+        '·': {prec: 5, fn: (a, b) => asNumber(a) * asNumber(b)},
+        '↑': {prec: POWER_PRECEDENCE, fn: (a, b) => asNumber(a) ** asNumber(b)},
+    }
+
+    // Other ways of typing the same operators (mostly what the CTS keyboard has).
+    static OPERATOR_SPELLINGS: Record<string, string> = {
+        '!=': '≠',
+        'ne': '≠',
+        'lt': '<',
+        'gt': '>',
+        '<=': '≤',
+        'le': '≤',
+        '>=': '≥',
+        'ge': '≥',
+        "'": '·',
+        '*': '↑',
+        '^': '↑',
+    }
+
+    static binaryOperator(raw: string): BinaryOperator {
+        return this.BINARY_OPERATORS[this.OPERATOR_SPELLINGS[raw] ?? raw];
     }
 
     static parse_binary(tokens: TokenIterator<Token>, lhs: Expression, min_prec = 0): Expression {
@@ -111,13 +284,20 @@ abstract class Expression {
         let rhs: Expression;
 
         // From wikipedia's 'Precedence Climbing' pseudocode: https://en.wikipedia.org/wiki/Operator-precedence_parser
-        while (token.type === TokenType.OP && (current = this.BINARY_OPERATORS[token.raw]).prec >= min_prec) {
-            tokens.next();
+        while (token.type === TokenType.OP && (current = this.binaryOperator(token.raw))?.prec >= min_prec) {
+            const op = tokens.next().raw;
             rhs = this.parse_unary(tokens);
-            while ((token = tokens.peek()).type === TokenType.OP && (next = this.BINARY_OPERATORS[token.raw]).prec > current.prec) {
+            while ((token = tokens.peek()).type === TokenType.OP && (next = this.binaryOperator(token.raw))
+                    && next.prec > current.prec) {
                 rhs = this.parse_binary(tokens, rhs, next.prec);
             }
-            lhs = new BinaryExpression(current.fn, lhs, rhs);
+            if (!current.relation) {
+                lhs = new BinaryExpression(current.fn, lhs, rhs, op);
+            } else if (lhs instanceof RelationExpression) {
+                lhs.extend(op, rhs);
+            } else {
+                lhs = new RelationExpression(lhs, op, rhs);
+            }
         }
 
         return lhs;
@@ -129,36 +309,86 @@ abstract class Expression {
 class VariableExpression implements Expression {
     v: string;
     indices: Expression[];
+    // Where it was typed, if it was.
+    span: Span | null;
 
-    constructor(v: string, indices: Expression[] = []) {
+    constructor(v: string, indices: Expression[] = [], span: Span | null = null) {
         this.v = v;
         this.indices = indices;
+        this.span = span;
     }
 
     eval(joss: Joss, fnArgs: Record<string, Result>): Result {
-        const res = fnArgs[this.v] ?? joss.get(this.v);
-        if (res instanceof Function && this.indices.length > 0) {
-            return res(...this.indices.map(i => i.eval(joss, fnArgs)));
+        const res = this.at(() => fnArgs[this.v] ?? joss.get(this.v));
+        if (res instanceof Formula && (this.indices.length > 0 || res.argNames.length === 0)) {
+            // Formulas without parameters are just worked out when they're used,
+            // but otherwise we're naming the formula (e.g. to pass it on).
+            return res.call(joss, this.indices.map(i => i.eval(joss, fnArgs)));
+        } else if (res instanceof Function && this.indices.length > 0) {
+            if (res.arity !== undefined && this.indices.length !== res.arity) {
+                const n = res.arity;
+                throw new ArityError(`Function ${this.v} needs ${n} ${n === 1 ? 'argument' : 'arguments'}.`, this.span);
+            }
+            const args = this.indices.map(i => i.eval(joss, fnArgs));
+            return this.at(() => rounded(joss, res(...args)));
+        } else if (this.indices.length > 0) {
+            // A number (or truth value) has no indices to use.
+            throw new DimensionError(`Please use no indices for ${this.v}.`, this.span);
         } else {
             return res;
         }
     }
 
+    // Errors in looking this up (or calling it) are pinned on where it was typed.
+    private at(fn: () => Result): Result {
+        try {
+            return fn();
+        } catch (e) {
+            if (e instanceof JossError) {
+                e.span ??= this.span;
+            }
+            throw e;
+        }
+    }
+
+    // Itself (unless it's a parameter), and whatever its indices or arguments use.
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        const indices = this.indices.flatMap(i => i.reads(bound));
+        return bound.has(this.v) ? indices : [this, ...indices];
+    }
+
+    toString(): string {
+        return this.indices.length === 0 ? this.v : `${this.v}(${this.indices.join(',')})`;
+    }
+
+    // How the target is shown to the user, e.g. a(1,2) rather than a(i,j).
+    describe(joss: Joss): string {
+        if (this.indices.length === 0) {
+            return this.v;
+        }
+        return `${this.v}(${this.indices.map(i => String(i.eval(joss, {}))).join(',')})`;
+    }
+
     eval_set(joss: Joss, value: Result) {
         if (this.indices.length > 0) {
-            joss.setArray(this.v, this.indices.map(i => Number(i.eval(joss, {}))), value);
+            joss.setArray(this.v, this.indices.map(i => asNumber(i.eval(joss, {}))), value);
+        } else if (value instanceof Formula && value.name !== this.v) {
+            // e.g. Set g=f., after which it's g's formula (to list, store
+            // or say an error was in).
+            joss.setVariable(this.v, new Formula(this.v, value.argNames, value.expression));
         } else {
             joss.setVariable(this.v, value);
         }
     }
 
     static parse(tokens: TokenIterator<Token>): VariableExpression {
-        const v = tokens.next().raw;
+        const name = expectName('variable', tokens.next());
+        const v = name.raw;
         const indices: Array<Expression> = [];
 
         let token = tokens.peek();
         if (!(token.type === TokenType.OPEN_BRACKET)) {
-            return new VariableExpression(v, indices);
+            return new VariableExpression(v, indices, {start: name.start, end: name.end});
         }
 
         const expectedBracket = token.raw === '[' ? ']' : ')';
@@ -175,7 +405,107 @@ class VariableExpression implements Expression {
             expect('variable argument', token, TokenType.COMMA);
         }
 
-        return new VariableExpression(v, indices);
+        return new VariableExpression(v, indices, {start: name.start, end: token.end});
+    }
+}
+
+type RangeFunction = (values: Iterable<Result>, f: (value: Result) => Result, numeric: Numeric) => Result;
+
+// These take each value of a range in turn, rather than a list of arguments.
+const RANGE_FUNCTIONS: Record<string, RangeFunction> = {
+    sum: (values, f, numeric) => reduce(values, 0, (acc, v) => numeric.round(acc + asNumber(f(v)))),
+    prod: (values, f, numeric) => reduce(values, 1, (acc, v) => numeric.round(acc * asNumber(f(v)))),
+    max: (values, f) => reduce(values, -Infinity, (acc, v) => Math.max(acc, asNumber(f(v)))),
+    min: (values, f) => reduce(values, Infinity, (acc, v) => Math.min(acc, asNumber(f(v)))),
+    conj: (values, f) => {
+        for (const v of values) {
+            if (!asTruth(f(v))) {
+                return false;
+            }
+        }
+        return true;
+    },
+    disj: (values, f) => {
+        for (const v of values) {
+            if (asTruth(f(v))) {
+                return true;
+            }
+        }
+        return false;
+    },
+    // The first value for which the proposition holds.
+    first: (values, f) => {
+        for (const v of values) {
+            if (asTruth(f(v))) {
+                return v;
+            }
+        }
+        throw new JossError('No value in the range satisfies the proposition.');
+    },
+};
+
+function reduce(values: Iterable<Result>, initial: number, fn: (acc: number, v: Result) => number): number {
+    let acc = initial;
+    for (const v of values) {
+        acc = fn(acc, v);
+    }
+    return acc;
+}
+
+// e.g. sum(i=1(1)10: i↑2), first(x=1,2,3,4: x>2)
+class RangeFunctionExpression implements Expression {
+    name: string;
+    v: string;
+    range: ValueRange;
+    expression: Expression;
+    bracket: string;
+
+    constructor(name: string, v: string, range: ValueRange, expression: Expression, bracket: string = '(') {
+        this.name = name;
+        this.v = v;
+        this.range = range;
+        this.expression = expression;
+        this.bracket = bracket;
+    }
+
+    eval(joss: Joss, fnArgs: Record<string, Result>): Result {
+        // The variable only has each value inside the function (like a formula's parameters).
+        return RANGE_FUNCTIONS[this.name](
+            this.range.eval(joss, fnArgs),
+            value => {
+                joss.budget.check();
+                return this.expression.eval(joss, {...fnArgs, [this.v]: value});
+            },
+            joss.numeric,
+        );
+    }
+
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return [...this.range.reads(bound), ...this.expression.reads(new Set([...bound, this.v]))];
+    }
+
+    toString(): string {
+        return `${this.name}${this.bracket}${this.v}=${this.range}:${this.expression}${CLOSING_BRACKETS[this.bracket]}`;
+    }
+
+    // i.e. sum(x=..., as opposed to sum(x, y)
+    static isNext(tokens: TokenIterator<Token>): boolean {
+        return RANGE_FUNCTIONS[tokens.peek().raw] !== undefined
+            && tokens.peek(1).type === TokenType.OPEN_BRACKET
+            && tokens.peek(2).type === TokenType.VAR
+            && tokens.peek(3).type === TokenType.OP && tokens.peek(3).raw === '=';
+    }
+
+    static parse(tokens: TokenIterator<Token>): RangeFunctionExpression {
+        const name = tokens.next().raw;
+        const bracket = tokens.next().raw;
+        const v = tokens.next().raw;
+        tokens.next(); // =
+        const range = ValueRange.parse(tokens);
+        expect('proposition or expression after range', tokens.next(), TokenType.COLON);
+        const expression = Expression.parse(tokens);
+        expect('end of range function', tokens.next(), TokenType.CLOSE_BRACKET, CLOSING_BRACKETS[bracket]);
+        return new RangeFunctionExpression(name, v, range, expression, bracket);
     }
 }
 
@@ -186,8 +516,17 @@ class NumberExpression implements Expression {
         this.num = num;
     }
 
-    eval(_joss: Joss, _fnArgs: Record<string, Result>): number {
-        return this.num;
+    eval(joss: Joss, _fnArgs: Record<string, Result>): number {
+        return joss.numeric.round(this.num);
+    }
+
+    reads(_bound: ReadonlySet<string>): VariableExpression[] {
+        return [];
+    }
+
+    toString(): string {
+        // JOSS doesn't bother with leading zeros (i.e. .5, not 0.5).
+        return String(this.num).replace(/^0\./, '.');
     }
 
     static parse(tokens: TokenIterator<Token>): NumberExpression {
@@ -199,68 +538,201 @@ class BinaryExpression implements Expression {
     fn: (a: Result, b: Result) => Result;
     lhs: Expression;
     rhs: Expression;
+    op: string;
 
-    constructor(fn: (a: Result, b: Result) => Result, lhs: Expression, rhs: Expression) {
+    constructor(fn: (a: Result, b: Result) => Result, lhs: Expression, rhs: Expression, op: string) {
         this.fn = fn;
         this.lhs = lhs;
         this.rhs = rhs;
+        this.op = op;
     }
 
     eval(joss: Joss, fnArgs: Record<string, Result>): Result {
-        return this.fn(this.lhs.eval(joss, fnArgs), this.rhs.eval(joss, fnArgs));
+        return rounded(joss, this.fn(this.lhs.eval(joss, fnArgs), this.rhs.eval(joss, fnArgs)));
+    }
+
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return [...this.lhs.reads(bound), ...this.rhs.reads(bound)];
+    }
+
+    toString(): string {
+        // Any brackets needed are already there as GroupExpressions.
+        return `${this.lhs}${spaceOperator(this.op)}${this.rhs}`;
     }
 }
 
-class ValueRange {
-    generators: ((joss: Joss, fnArgs: Record<string, Result>) => Generator<Result>)[];
+// e.g. 1≤x<3<y≤a, which is true if every relation in the chain is
+// (and each term is worked out only once).
+class RelationExpression implements Expression {
+    terms: Expression[];
+    ops: string[];
 
-    constructor() {
-        this.generators = [];
+    constructor(lhs: Expression, op: string, rhs: Expression) {
+        this.terms = [lhs, rhs];
+        this.ops = [op];
     }
 
-    *eval(joss: Joss, fnArgs: Record<string, Result>) {
-        for (const g of this.generators) {
-            yield* g(joss, fnArgs);
+    extend(op: string, rhs: Expression) {
+        this.ops.push(op);
+        this.terms.push(rhs);
+    }
+
+    eval(joss: Joss, fnArgs: Record<string, Result>): Result {
+        let lhs = this.terms[0].eval(joss, fnArgs);
+        for (let i = 0; i < this.ops.length; ++i) {
+            const rhs = this.terms[i + 1].eval(joss, fnArgs);
+            if (!Expression.binaryOperator(this.ops[i]).fn(lhs, rhs)) {
+                return false;
+            }
+            lhs = rhs;
         }
+        return true;
     }
 
-    addSingleValueGenerator(e: Expression) {
-        this.generators.push(function *(joss: Joss, fnArgs: Record<string, Result>) {
-            yield e.eval(joss, fnArgs);
-        });
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return this.terms.flatMap(term => term.reads(bound));
     }
 
-    addRangeGenerator(start: Expression, step: Expression, end: Expression) {
-        this.generators.push(function *(joss: Joss, fnArgs: Record<string, Result>) {
-            const endval = Number(end.eval(joss, fnArgs));
-            const stepval = Number(step.eval(joss, fnArgs));
-            for (let i = Number(start.eval(joss, fnArgs)); i < endval; i += stepval) {
-                yield i;
+    toString(): string {
+        return this.terms.map((term, i) => i === 0 ? `${term}` : `${spaceOperator(this.ops[i - 1])}${term}`).join('');
+    }
+}
+
+function spaceOperator(op: string): string {
+    return /\w/.test(op) ? ` ${op} ` : op;
+}
+
+// What Let defines: a rule for computing a value, worked out afresh each time it's used.
+class Formula {
+    name: string;
+    argNames: string[];
+    expression: Expression;
+
+    constructor(name: string, argNames: string[], expression: Expression) {
+        this.name = name;
+        this.argNames = argNames;
+        this.expression = expression;
+    }
+
+    call(joss: Joss, args: Result[]): Result {
+        if (args.length !== this.argNames.length) {
+            const n = this.argNames.length;
+            throw new ArityError(`Formula ${this.name} needs ${n} ${n === 1 ? 'argument' : 'arguments'}.`);
+        }
+        const fnArgs = Object.fromEntries(this.argNames.map((argName, i) => [argName, args[i]]));
+        joss.profiler.formulaCall();
+        try {
+            joss.budget.enter();
+            try {
+                return this.expression.eval(joss, fnArgs);
+            } finally {
+                joss.budget.leave();
+            }
+        } catch (e) {
+            if (e instanceof RangeError) {
+                // i.e. the stack overflowed.
+                throw joss.budget.overflow();
             }
+            if (e instanceof JossError) {
+                e.formula ??= this.name;
+            }
+            throw e;
+        }
+    }
+
+    // e.g. S(x,y): sqrt(x^2+y^2)
+    toString(): string {
+        const head = this.argNames.length === 0 ? this.name : `${this.name}(${this.argNames.join(',')})`;
+        return `${`${head}:`.padEnd(7)} ${this.expression}`;
+    }
+}
+
+// e.g. a,b(c)d(e)f,g
+class ValueRange {
+    elements: {start: Expression, ranges: {step: Expression, end: Expression}[]}[];
+
+    constructor() {
+        this.elements = [];
+    }
+
+    // All the starts, steps and ends are worked out now (the Do 'is interpreted
+    // only once'), even though the values themselves come one at a time.
+    eval(joss: Joss, fnArgs: Record<string, Result>): Iterable<Result> {
+        const elements = this.elements.map(({start, ranges}) => {
+            let from = start.eval(joss, fnArgs);
+            return {
+                start: from,
+                ranges: ranges.map(({step, end}) => {
+                    const range = {from: asNumber(from), step: asNumber(step.eval(joss, fnArgs)), end: asNumber(end.eval(joss, fnArgs))};
+                    if (range.step === 0) {
+                        throw new DomainError('Please don\'t use a step of zero.');
+                    }
+                    if ((range.end - range.from) * range.step < 0) {
+                        throw new DomainError('Please use a step towards the end of the range.');
+                    }
+                    from = range.end;
+                    return range;
+                }),
+            };
         });
+        return ValueRange.values(joss.numeric, elements);
+    }
+
+    // e.g. 2(3)10(5)20 is 2, 5, 8, 10, 15, 20: each range ends exactly
+    // where the next starts, and the last ends on its end point (so
+    // 0(1/3)1 finishes on 1, not something just short of it).
+    private static *values(numeric: Numeric, elements: {start: Result, ranges: {from: number, step: number, end: number}[]}[]) {
+        for (const {start, ranges} of elements) {
+            let last = start;
+            for (const {from, step, end} of ranges) {
+                // Count steps rather than adding them up, so errors don't accumulate,
+                // and anything within a hair of the end is the end.
+                const margin = Math.abs(step) * 1e-9;
+                for (let k = 0; ; ++k) {
+                    const v = numeric.round(from + numeric.round(k * step));
+                    if (step > 0 ? v >= end - margin : v <= end + margin) {
+                        break;
+                    }
+                    yield v;
+                }
+                last = end;
+            }
+            yield last;
+        }
+    }
+
+    reads(bound: ReadonlySet<string>): VariableExpression[] {
+        return this.elements.flatMap(({start, ranges}) => [
+            ...start.reads(bound),
+            ...ranges.flatMap(({step, end}) => [...step.reads(bound), ...end.reads(bound)]),
+        ]);
+    }
+
+    toString(): string {
+        return this.elements.map(({start, ranges}) => `${start}${ranges.map(({step, end}) => `(${step})${end}`).join('')}`).join(',');
     }
 
     static parse(tokens: TokenIterator<Token>): ValueRange {
         const vr = new ValueRange();
-        let start = Expression.parse(tokens);
-
-        // : ends range expression for function arg,
-        // and . when used in for modifier.
-        while (![':', '.'].includes(tokens.peek().raw)) {
-            const token = tokens.next();
-            if (token.raw === ',') {
-                vr.addSingleValueGenerator(start);
-                start = Expression.parse(tokens);
-            } else if (token.type === TokenType.OPEN_BRACKET) {
+
+        // Stops at whatever comes after the range, e.g. : for a function
+        // argument, or . when used in for modifier.
+        while (true) {
+            const start = Expression.parse(tokens);
+            const ranges = [];
+            let token;
+            while ((token = tokens.peek()).type === TokenType.OPEN_BRACKET) {
+                tokens.next();
                 const step = Expression.parse(tokens);
-                expect('end of step in range', tokens.next(), TokenType.CLOSE_BRACKET, token.raw === '[' ? ']' : ')');
-                const end = Expression.parse(tokens);
-                vr.addRangeGenerator(start, step, end);
-                start = end;
+                expect('end of step in range', tokens.next(), TokenType.CLOSE_BRACKET, CLOSING_BRACKETS[token.raw]);
+                ranges.push({step, end: Expression.parse(tokens)});
             }
-        }
+            vr.elements.push({start, ranges});
 
-        vr.addSingleValueGenerator(start);
-        return vr;
+            if (tokens.peek().type !== TokenType.COMMA) {
+                return vr;
+            }
+            tokens.next();
+        }
     }
 }
\ No newline at end of file
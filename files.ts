@@ -0,0 +1,79 @@
+export {JossFile};
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import { JossError } from './exceptions.ts';
+import { Clock, SYSTEM_CLOCK, formatDate } from './clock.ts';
+
+// e.g. loan, example(16)
+const NAME_REGEX = /^[A-Za-z0-9-]{1,15}(?:\([-+]?[0-9]+\))?$/;
+
+// Items are held as what you'd type in to get them back, so
+// the first line (a comment, so Get ignores it) records when.
+const HEADER_REGEX = /^\* Stored ([0-9]+-[0-9]+-[0-9]+)/;
+
+// A 'space' on the disk is about 150 cells of 9 characters each.
+const CHARACTERS_PER_SPACE = 150 * 9;
+
+// Your personal file of stored items, kept as a directory of text files.
+class JossFile {
+    directory: string;
+    clock: Clock;
+
+    constructor(directory: string, clock: Clock = SYSTEM_CLOCK) {
+        this.directory = directory;
+        this.clock = clock;
+    }
+
+    store(name: string, lines: string[], replacing: boolean = false) {
+        const path = this.path(name);
+        if (!replacing && existsSync(path)) {
+            throw new JossError(`There is already an item named ${name}.`);
+        }
+        mkdirSync(this.directory, {recursive: true});
+        writeFileSync(path, [`* Stored ${formatDate(this.clock.now())}`, ...lines, ''].join('\n'));
+    }
+
+    get(name: string): string {
+        const path = this.path(name);
+        if (!existsSync(path)) {
+            throw new JossError(`No such item: ${name}`);
+        }
+        return readFileSync(path, 'utf-8');
+    }
+
+    delete(name: string) {
+        const path = this.path(name);
+        if (!existsSync(path)) {
+            throw new JossError(`No such item: ${name}`);
+        }
+        rmSync(path);
+    }
+
+    summary(): string {
+        const names = existsSync(this.directory)
+            ? readdirSync(this.directory).filter(f => f.endsWith('.joss')).map(f => f.slice(0, -'.joss'.length)).sort()
+            : [];
+
+        let total = 0;
+        const lines = [`${'NAME'.padEnd(36)}${'DATE'.padEnd(12)}SPACE`];
+        for (const name of names) {
+            const contents = readFileSync(this.path(name), 'utf-8');
+            const space = Math.max(1, Math.ceil(contents.length / CHARACTERS_PER_SPACE));
+            const date = HEADER_REGEX.exec(contents)?.[1] ?? '...';
+            total += space;
+            lines.push(`${name.padEnd(36)}${date.padEnd(12)}${String(space).padStart(5)}`);
+        }
+        lines.push(`TOTAL SPACE IN FILE: ${total}`);
+        return lines.join('\n');
+    }
+
+    private path(name: string): string {
+        if (!NAME_REGEX.test(name)) {
+            throw new JossError('Please limit names to 15 letters and digits.');
+        }
+        return join(this.directory, `${name}.joss`);
+    }
+}
+
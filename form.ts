@@ -0,0 +1,107 @@
+export {Form};
+
+import { JossError } from './exceptions.ts';
+
+// Underscores (perhaps with a decimal point) for fixed point,
+// or a run of periods for scientific notation. The shortest
+// useful scientific field is 7 periods (sign, d.d, exponent),
+// so anything shorter is just text.
+const FIELD_REGEX = /_+(?:\._+)?|\._+|\.{7,}/g;
+
+// JOSS works to 9 significant digits, however wide the field.
+const SIGNIFICANT_DIGITS = 9;
+
+interface FixedField {
+    kind: 'fixed';
+    intWidth: number;
+    fracWidth: number | null;
+}
+
+interface ScientificField {
+    kind: 'scientific';
+    width: number;
+}
+
+type Field = FixedField | ScientificField;
+
+class Form {
+    template: string;
+    // Text and fields alternate, starting and ending with (possibly empty) text.
+    text: string[];
+    fields: Field[];
+
+    constructor(template: string) {
+        this.template = template;
+        this.text = [];
+        this.fields = [];
+
+        let last = 0;
+        for (const m of template.matchAll(FIELD_REGEX)) {
+            this.text.push(template.slice(last, m.index));
+            this.fields.push(Form.parseField(m[0]));
+            last = m.index + m[0].length;
+        }
+        this.text.push(template.slice(last));
+    }
+
+    private static parseField(s: string): Field {
+        if (s.startsWith('..')) {
+            return {kind: 'scientific', width: s.length};
+        }
+        const [intPart, fracPart] = s.split('.');
+        return {kind: 'fixed', intWidth: intPart.length, fracWidth: fracPart === undefined ? null : fracPart.length};
+    }
+
+    format(values: number[]): string {
+        if (values.length > this.fields.length) {
+            throw new JossError('I have too many values for the form.');
+        }
+
+        let result = this.text[0];
+        for (let i = 0; i < values.length; ++i) {
+            result += Form.formatField(this.fields[i], values[i]) + this.text[i + 1];
+        }
+
+        // Fewer values than fields is fine; we just stop at the first empty one.
+        return values.length < this.fields.length ? result.trimEnd() : result;
+    }
+
+    private static formatField(field: Field, v: number): string {
+        return field.kind === 'fixed'
+            ? Form.formatFixed(field, v)
+            : Form.formatScientific(field, v);
+    }
+
+    private static formatFixed(field: FixedField, v: number): string {
+        const rounded = Number(v.toPrecision(SIGNIFICANT_DIGITS)).toFixed(field.fracWidth ?? 0);
+        let [intPart, fracPart] = rounded.replace('-', '').split('.');
+        if (fracPart !== undefined && intPart === '0') {
+            // i.e. .25, not 0.25
+            intPart = '';
+        }
+        // Don't show -0 (or -.00) when the value has rounded away.
+        const sign = rounded.startsWith('-') && /[1-9]/.test(rounded) ? '-' : '';
+        const intText = sign + intPart;
+
+        if (intText.length > field.intWidth) {
+            throw new JossError('I can\'t express value in your form.');
+        }
+        return intText.padStart(field.intWidth) + (fracPart === undefined ? '' : `.${fracPart}`);
+    }
+
+    private static formatScientific(field: ScientificField, v: number): string {
+        // Sign, digit, point, then the remaining digits, then 3 for the exponent.
+        const digits = field.width - 5;
+        const precise = Math.min(digits, SIGNIFICANT_DIGITS);
+        const [mantissa, exponent] = Math.abs(v).toExponential(precise - 1).split('e');
+        const e = Number(exponent);
+
+        if (Math.abs(e) > 99) {
+            throw new JossError('I can\'t express value in your form.');
+        }
+        return (v < 0 ? '-' : ' ')
+            + mantissa.padEnd(digits + 1, '0')
+            + (e < 0 ? '-' : ' ')
+            + String(Math.abs(e)).padStart(2, '0');
+    }
+}
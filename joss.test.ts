@@ -1,8 +1,51 @@
-import { readdirSync, readFileSync } from 'fs';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 import { join } from 'path';
-import { test, expect } from 'bun:test';
+import { test, expect, afterAll } from 'bun:test';
 
-import { Joss } from './joss.ts';
+import { Joss, JossOptions } from './joss.ts';
+import { Clock } from './clock.ts';
+import { ArityError, DimensionError, DomainError, LimitError, MissingDefinitionError, TypeMismatchError, UndefinedValueError } from './exceptions.ts';
+
+// What a #! line can say: JossOptions, except that the clock is
+// stopped at a given moment (or ticks, by so many ms each time it's
+// used for timing) and the environment is just given.
+type SessionOptions = Omit<JossOptions, 'clock' | 'environment' | 'abort'> & {now?: string, tick?: number, users?: number, initials?: string};
+
+// A stopped clock, which only moves when the session says time has passed
+// (or when it ticks).
+class TestClock implements Clock {
+  private start: number;
+  private tick: number;
+  private passed: number = 0;
+
+  constructor(now: string, tick: number = 0) {
+    this.start = new Date(now).getTime();
+    this.tick = tick;
+  }
+
+  now(): Date {
+    return new Date(this.start + this.passed);
+  }
+
+  elapsed(): number {
+    const passed = this.passed;
+    this.passed += this.tick;
+    return passed;
+  }
+
+  advance(ms: number): void {
+    this.passed += ms;
+  }
+}
+
+function jossOptions({now, tick, users, initials, ...options}: SessionOptions): JossOptions {
+  return {
+    ...options,
+    clock: now === undefined ? undefined : new TestClock(now, tick),
+    environment: {users: () => users ?? 1, initials: () => initials ?? 'JS'},
+  };
+}
 
 
 function *get_tests() {
@@ -15,25 +58,59 @@ function *get_tests() {
     let lineno = 0;
     let command = '';
     let command_lineno = 0;
+    let replies: string[] = [];
+    let attention: number | null = null;
+    let abort: number | null = null;
+    let wait = 0;
+    let options: SessionOptions = {};
     for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
       lineno += 1;
+      if (line.startsWith('#!')) {
+        // Options for the whole session, e.g. #! {"layout": "joss"}
+        options = JSON.parse(line.slice(2));
+        continue;
+      }
       if (line.startsWith('#')) {
         continue;
       }
+      if (line.startsWith('< ')) {
+        // What the user types when the command asks for something.
+        replies.push(line.slice(2));
+        continue;
+      }
+      if (line.startsWith('^C ')) {
+        // ATTN, after the command's run for that many time slices.
+        attention = Number(line.slice(3));
+        continue;
+      }
+      if (line.startsWith('! ')) {
+        // The host aborts, after the command's run for that many time slices.
+        abort = Number(line.slice(2));
+        continue;
+      }
+      if (line.startsWith('~ ')) {
+        // That many seconds go by once the command's done.
+        wait += Number(line.slice(2));
+        continue;
+      }
       if (!line.startsWith('> ')) {
         expected += line + '\n';
         continue;
       }
 
       if (command !== '') {
-        yield {fname: fileName, command_lineno, command, expected};
+        yield {fname: fileName, options, command_lineno, command, replies, attention, abort, wait, expected};
       }
       command = line.slice(2);
       command_lineno = lineno;
+      replies = [];
+      attention = null;
+      abort = null;
+      wait = 0;
       expected = '';
     }
 
-    yield {fname: fileName, command_lineno, command, expected};
+    yield {fname: fileName, options, command_lineno, command, replies, attention, abort, wait, expected};
   }
 }
 
@@ -51,26 +128,143 @@ class TestOutput {
   }
 }
 
+class TestInput {
+  private replies: string[] = [];
+  private echo: TestOutput;
+
+  constructor(echo: TestOutput) {
+    this.echo = echo;
+  }
+
+  // Like a terminal, what's typed shows up in the output.
+  readLine(): string | null {
+    const reply = this.replies.shift();
+    if (reply === undefined) {
+      return null;
+    }
+    this.echo.write(new TextEncoder().encode(reply + '\n'));
+    return reply;
+  }
+
+  setReplies(replies: string[]): void {
+    this.replies = [...replies];
+  }
+}
+
 // Group tests by filename to maintain state within each file
-const testsByFile = new Map<string, Array<{command_lineno: number, command: string, expected: string}>>();
+const testsByFile = new Map<string, Array<{command_lineno: number, command: string, replies: string[], attention: number | null, abort: number | null, wait: number, expected: string}>>();
+const optionsByFile = new Map<string, SessionOptions>();
 
-for (const {fname, command_lineno, command, expected} of get_tests()) {
+for (const {fname, options, command_lineno, command, replies, attention, abort, wait, expected} of get_tests()) {
   if (!testsByFile.has(fname)) {
     testsByFile.set(fname, []);
+    optionsByFile.set(fname, options);
   }
-  testsByFile.get(fname)!.push({command_lineno, command, expected});
+  testsByFile.get(fname)!.push({command_lineno, command, replies, attention, abort, wait, expected});
 }
 
 // Create tests for each file
 for (const [fname, tests] of testsByFile) {
-  const joss = new Joss(process.stdin, new TestOutput());
+  const output = new TestOutput();
+  // Each session gets its own (initially empty) file.
+  const fileDirectory = mkdtempSync(join(tmpdir(), 'joss-'));
+  afterAll(() => rmSync(fileDirectory, {recursive: true, force: true}));
+  const aborting = {aborted: false};
+  const joss = new Joss(new TestInput(output), output, {...jossOptions(optionsByFile.get(fname)!), abort: aborting, fileDirectory});
 
-  for (const {command_lineno, command, expected} of tests) {
+  for (const {command_lineno, command, replies, attention, abort, wait, expected} of tests) {
     test(`${fname}: ${command_lineno}: ${command}`, () => {
-      const output = joss.stdout as TestOutput;
-      joss.eval(command);
+      (joss.stdin as TestInput).setReplies(replies);
+      joss.evalInteractive(command);
+      // As the REPL does, carrying on after each time slice.
+      for (let slices = 1; joss.yielded; ++slices) {
+        if (slices === attention) {
+          joss.attention();
+        }
+        if (slices === abort) {
+          aborting.aborted = true;
+        }
+        joss.carryOnInteractive();
+      }
+      // (Just for this command.)
+      aborting.aborted = false;
+      if (wait > 0) {
+        (joss.clock as TestClock).advance(wait * 1000);
+      }
       const actualOutput = output.getAndClear();
       expect(actualOutput).toBe(expected);
     });
   }
 }
+
+// Embedding: eval throws what evalInteractive would have said.
+test('eval throws errors in stored steps, which pause as before', () => {
+  const output = new TestOutput();
+  const joss = new Joss(new TestInput(output), output);
+  joss.eval('1.1 Type x.');
+  let error: unknown;
+  try {
+    joss.eval('Do part 1.');
+  } catch (e) {
+    error = e;
+  }
+  expect(error).toBeInstanceOf(UndefinedValueError);
+  expect((error as UndefinedValueError).step).toBe('1.1');
+  expect(output.getAndClear()).toBe('');
+  joss.eval('Set x=3.');
+  joss.eval('Go.');
+  expect(output.getAndClear()).toBe('3\n');
+});
+
+test('carryOn throws errors in later time slices, as eval does', () => {
+  const output = new TestOutput();
+  const joss = new Joss(new TestInput(output), output, {timeSlice: 0});
+  joss.eval('1.1 Set n=1.');
+  joss.eval('1.2 Type x.');
+  joss.eval('Do part 1.');
+  expect(joss.yielded).toBe(true);
+  expect(() => joss.carryOn()).toThrow(UndefinedValueError);
+  expect(output.getAndClear()).toBe('');
+});
+
+test('eval throws errors by kind', () => {
+  const output = new TestOutput();
+  const joss = new Joss(new TestInput(output), output, {arithmetic: 'decimal'});
+  expect(() => joss.eval('Type 1 and 1=1.')).toThrow(TypeMismatchError);
+  expect(() => joss.eval('Type 10↑63·10.')).toThrow(DomainError);
+  expect(() => joss.eval('Type form 3.')).toThrow(MissingDefinitionError);
+  expect(() => joss.eval('Type formula f.')).toThrow(MissingDefinitionError);
+  joss.eval('Set n=3.');
+  expect(() => joss.eval('Type n(1).')).toThrow(DimensionError);
+  expect(() => joss.eval('Type sqrt(1,2).')).toThrow(ArityError);
+});
+
+test('formulas deeper than the stack goes reach the depth limit', () => {
+  const output = new TestOutput();
+  const joss = new Joss(new TestInput(output), output, {limits: {depth: 1000000}});
+  joss.eval('Let f(x)=[x=0:0; 1+f(x-1)].');
+  let error: unknown;
+  try {
+    joss.eval('Type f(500000).');
+  } catch (e) {
+    error = e;
+  }
+  expect(error).toBeInstanceOf(LimitError);
+  expect((error as LimitError).limit).toBe('depth');
+  expect((error as LimitError).formula).toBe('f');
+});
+
+test('paper with no room between its margins is refused', () => {
+  const output = new TestOutput();
+  expect(() => new Joss(new TestInput(output), output, {paper: {length: 4, top: 2, bottom: 2}})).toThrow(DomainError);
+});
+
+test('both kinds of arithmetic refuse results that are no number', () => {
+  for (const arithmetic of ['double', 'decimal'] as const) {
+    const output = new TestOutput();
+    const joss = new Joss(new TestInput(output), output, {arithmetic});
+    expect(() => joss.eval('Type (-2)↑.5.')).toThrow(DomainError);
+    expect(() => joss.eval('Type 10↑400.')).toThrow(DomainError);
+    expect(() => joss.eval('Type exp(1000).')).toThrow(DomainError);
+  }
+});
@@ -1,141 +1,354 @@
-export {Joss};
-export type {Result, Step};
+export {Joss, FUNCTIONS, SPECIAL_VALUES, functionName};
+export type {Result, Step, Reader, Writer, JossOptions, Layout};
 
 import { parse } from './command.ts';
 import { tokenise } from './tokenise.ts';
-import { TerminateProgramException } from './exceptions.ts';
+import { Form } from './form.ts';
+import { JossFile } from './files.ts';
+import { NUMERICS, Numeric, Arithmetic } from './numeric.ts';
+import { Clock, Environment, SYSTEM_CLOCK, SYSTEM_ENVIRONMENT, formatDate, formatTime } from './clock.ts';
+import { Paper, PaperOptions } from './paper.ts';
+import { Abort, Budget, Limits } from './budget.ts';
+import { Debugger, Nesting } from './debugger.ts';
+import { Profiler, Timing } from './profiler.ts';
+import { Formula, asNumber, asTruth } from './expression.ts';
+import { DimensionError, DomainError, JossError, LimitError, MissingDefinitionError, MissingStepError, UndefinedValueError } from './exceptions.ts';
 
 
-type JossFn = ((...args: any[]) => Result);
-type Result = number | boolean | JossFn;
+// Built-ins that take just so many arguments say how many, and an
+// array's elements (passed on as a function) say whose they are.
+type JossFn = ((...args: any[]) => Result) & {arity?: number, array?: string};
+type Result = number | boolean | JossFn | Formula;
 
+// Steps don't run each other: Do, To, Done, Quit, Stop and Demand just
+// tell the Joss what to run next (or to pause), and it carries on from there.
 interface Step {
-    eval(joss: Joss): void;
+    exec(joss: Joss): void;
+    // i.e. the step as it would be typed in (without the number).
+    toString(): string;
 }
 
 
+// The functions check their arguments are what they expect, as JOSS
+// doesn't mix numbers and truth values. Without an arity, they take
+// any number of arguments (e.g. sum).
+function numeric(fn: (...args: number[]) => number, arity?: number): JossFn {
+    return Object.assign((...args: Result[]) => fn(...args.map(asNumber)), {arity});
+}
+
+function logical(fn: (...args: boolean[]) => boolean): JossFn {
+    return (...args: Result[]) => fn(...args.map(asTruth));
+}
+
 const FUNCTIONS: Record<string, JossFn> = {
     // Number dissection functions
-    sgn: Math.sign,
-    ip: Math.trunc,
-    fp: (x: number) => x - Math.trunc(x),
-    dp: (x: number) => Number(x.toExponential().split('e')[0]),
-    xp: (x: number) => Number(x.toExponential().split('e')[1]),
+    sgn: numeric(Math.sign, 1),
+    ip: numeric(Math.trunc, 1),
+    fp: numeric((x: number) => x - Math.trunc(x), 1),
+    dp: numeric((x: number) => Number(x.toExponential().split('e')[0]), 1),
+    xp: numeric((x: number) => Number(x.toExponential().split('e')[1]), 1),
 
     // Basic functions
-    sqrt: Math.sqrt,
-    sin: Math.sin,
-    cos: Math.cos,
-    log: Math.log,
-    exp: Math.exp,
-    arg: (x: number, y: number) => Math.atan(y / x),
+    sqrt: numeric((x: number) => {
+        if (x < 0) {
+            throw new DomainError('Please take sqrt of non-negative numbers only.');
+        }
+        return Math.sqrt(x);
+    }, 1),
+    sin: numeric(Math.sin, 1),
+    cos: numeric(Math.cos, 1),
+    log: numeric((x: number) => {
+        if (x <= 0) {
+            throw new DomainError('Please take log of positive numbers only.');
+        }
+        return Math.log(x);
+    }, 1),
+    exp: numeric(Math.exp, 1),
+    arg: numeric((x: number, y: number) => Math.atan(y / x), 2),
 
     // Special functions
-    sum: (...args: number[]) => args.reduce((acc, n) => acc + n, 0),
-    prod: (...args: number[]) => args.reduce((acc, n) => acc * n, 1),
-    min: Math.min,
-    max: Math.max,
-    conj: (...args: boolean[]) => args.reduce((acc, b) => acc && b, true),
-    disj: (...args: boolean[]) => args.reduce((acc, b) => acc || b, false),
-    tv: (v: boolean|number) => {
-        // TODO better way in Typescript?
-        switch(typeof(v)) {
+    sum: numeric((...args: number[]) => args.reduce((acc, n) => acc + n, 0)),
+    prod: numeric((...args: number[]) => args.reduce((acc, n) => acc * n, 1)),
+    min: numeric(Math.min),
+    max: numeric(Math.max),
+    conj: logical((...args: boolean[]) => args.reduce((acc, b) => acc && b, true)),
+    disj: logical((...args: boolean[]) => args.reduce((acc, b) => acc || b, false)),
+    // The one way across: truth values to 1 or 0 (and back).
+    tv: Object.assign((v: Result) => {
+        switch (typeof v) {
             case 'boolean':
                 return Number(v);
             case 'number':
                 return Boolean(v);
+            default:
+                return asNumber(v);
         }
-    },
-    // TODO: this one is going to need special handling up the stack,
-    // as we need to be able to do first(x=1,2,3,4: x > 2) = 3.
-    // (i.e. can't just present result of function to first, need input)
-    // Or rejig entire argument passing strategy, which seems extreme.
-    // first: undefined,
+    }, {arity: 1}),
 };
 
 
+// What a function is typed as, e.g. sqrt, or a for a's elements.
+function functionName(fn: JossFn): string | null {
+    return fn.array ?? Object.keys(FUNCTIONS).find(name => FUNCTIONS[name] === fn) ?? null;
+}
+
+// Values that come from outside rather than being set.
+const SPECIAL_VALUES: Record<string, (joss: Joss) => Result> = {
+    // Minutes (to the hundredth) since Reset timer (or since starting).
+    timer: joss => Math.round((joss.clock.now().getTime() - joss.timerStart) / 600) / 100,
+    users: joss => joss.environment.users(),
+};
+
+// The manual's limits, which only apply when strict.
+const MAX_INDICES = 10;
+const MAX_INDEX = 250;
+
+// Elements are kept by their indices, e.g. a(1,-2) under '1,-2'.
+interface Element {
+    indices: number[];
+    value: Result;
+}
+
 class JossArray {
-    value: Record<string, Result>;
+    name: string;
+    elements: Map<string, Element>;
     dimensions: number;
+    // i.e. elements that haven't been set are 0 (see Let a be sparse).
     sparse: boolean;
 
-    constructor() {
+    constructor(name: string) {
+        this.name = name;
         this.dimensions = 0;
-        this.value = {};
+        this.elements = new Map();
         this.sparse = false;
     }
 
     set(indices: number[], v: Result) {
         if (indices.length !== this.dimensions) {
-            this.value = {};
+            // A different shape of array altogether, which (unless it's
+            // the first) has to be declared sparse again.
+            if (this.elements.size > 0) {
+                this.sparse = false;
+            }
+            this.elements = new Map();
             this.dimensions = indices.length;
         }
-        this.value[JossArray.makeKey(indices)] = v;
-    }
-
-    static makeKey(indices: Array<number>) {
-        // TODO: This feels like the stupidest thing I've ever done, but
-        // it sort of works...
-        return `(${indices.map(String).join(',')})`;
+        this.elements.set(indices.join(','), {indices, value: v});
     }
 
     get(...indices: number[]) {
+        if (this.sparse && this.elements.size === 0) {
+            // Nothing set, so no shape yet either.
+            return 0;
+        }
         if (indices.length !== this.dimensions) {
-            throw new Error('Attempt to index array with incorrect dimensionality');
+            throw new DimensionError(`Please use ${this.dimensions} ${this.dimensions === 1 ? 'index' : 'indices'} for ${this.name}.`);
         }
 
-        const key = JossArray.makeKey(indices);
-        if (this.value[key] !== undefined) {
-            return this.value[key];
+        const element = this.elements.get(indices.join(','));
+        if (element !== undefined) {
+            return element.value;
         } else if (this.sparse) {
             return 0;
         } else {
-            throw new Error('Missing array contents: ${key}')
+            throw new UndefinedValueError(`${this.name}(${indices.join(',')})`);
         }
     }
+
+    has(indices: number[]): boolean {
+        return indices.length === this.dimensions && this.elements.has(indices.join(','));
+    }
+
+    // In index order, i.e. a(1,1), a(1,2)... a(2,1)...
+    sortedElements(): Element[] {
+        return [...this.elements.values()].sort((a, b) => {
+            const i = a.indices.findIndex((n, i) => n !== b.indices[i]);
+            return i === -1 ? 0 : a.indices[i] - b.indices[i];
+        });
+    }
+}
+
+
+// One Do in progress: what it runs, how many times, and where it's got to.
+interface Frame {
+    // The Do itself, e.g. Do part 6 for i=1(1)3
+    label: string;
+    // What it runs each time around: a part, or just one step of it.
+    part: string;
+    only: string | null;
+    // The for variable, if any.
+    variable: string | null;
+    // Starts the next time around (e.g. setting the for variable),
+    // or says there isn't one.
+    again: () => boolean;
+    // The step being (or about to be) run, or null between times around.
+    at: string | null;
+    // Whether it has been, so it's time to move on.
+    ran: boolean;
+    // Whether to stop after this step (i.e. Do step, until a To).
+    single: boolean;
+    // When profiling, the step that did the Do.
+    timing: Timing | null;
 }
 
+interface Suspension {
+    // Innermost Do last.
+    frames: Frame[];
+    // What was itself interrupted when this was started by a parenthetic
+    // command, and so comes back once this is finished.
+    outer: Suspension | null;
+}
 
 interface Writer {
     write(chunk: Uint8Array): void;
 }
 
+interface Reader {
+    // null once there's nothing more to read.
+    readLine(): string | null;
+}
+
+// How Type shows values: 'joss' as the manual does (x+2 =           5),
+// or 'terse' for just the value.
+type Layout = 'joss' | 'terse';
+
+interface JossOptions {
+    // Where Store and Get keep your file; without one, there's no file.
+    fileDirectory?: string;
+    layout?: Layout;
+    arithmetic?: Arithmetic;
+    // Hold to the manual's limits (which we're otherwise relaxed about).
+    strict?: boolean;
+    clock?: Clock;
+    environment?: Environment;
+    paper?: PaperOptions;
+    limits?: Limits;
+    // Stops whatever's running once set (e.g. an AbortSignal).
+    abort?: Abort;
+    // Run programs this many ms at a time (see carryOn), so the host
+    // can get a word in (e.g. ATTN) while they run.
+    timeSlice?: number;
+    // Start with the profiler on.
+    profile?: boolean;
+}
+
 class Joss {
     stdout: Writer;
-    stdin: NodeJS.ReadableStream;
+    // Everything printed goes through here, to keep track of lines and pages.
+    paper: Paper;
+    stdin: Reader;
     arrays: Record<string, JossArray>;
     variables: Record<string, Result>;
     program: Record<string, Step>;
     programParts: Record<string, string[]>;
-    inStoredProgram: boolean;
+    forms: Record<string, Form>;
+    // Set by 'Form n:', as the next line is then the form itself.
+    pendingForm: number | null;
+    // The Dos of the computation being run, innermost last.
+    frames: Frame[];
+    // A computation that's been stopped (or has failed) part way through.
+    suspended: Suspension | null;
+    // Pause once the current step is finished.
+    pausing: boolean;
+    file: JossFile | null;
+    layout: Layout;
+    numeric: Numeric;
+    strict: boolean;
+    clock: Clock;
+    environment: Environment;
+    // When the timer was last reset (in ms).
+    timerStart: number;
+    budget: Budget;
+    timeSlice: number | null;
+    sliceStart: number;
+    // The time slice was up, so carryOn is waiting to be called.
+    yielded: boolean;
+    // ATTN: stop before the next step.
+    attentionRequested: boolean;
+    debug: Debugger;
+    profiler: Profiler;
 
-    constructor(stdin: NodeJS.ReadableStream, stdout: Writer) {
+    constructor(stdin: Reader, stdout: Writer, options: JossOptions = {}) {
         this.stdout = stdout;
+        this.paper = new Paper(stdout, options.paper, () => this.heading());
         this.stdin = stdin;
         this.variables = {};
         this.arrays = {};
         this.program = {};
         this.programParts = {};
-        this.inStoredProgram = false;
+        this.forms = {};
+        this.pendingForm = null;
+        this.frames = [];
+        this.suspended = null;
+        this.pausing = false;
+        this.clock = options.clock ?? SYSTEM_CLOCK;
+        this.environment = options.environment ?? SYSTEM_ENVIRONMENT;
+        this.timerStart = this.clock.now().getTime();
+        this.file = options.fileDirectory === undefined ? null : new JossFile(options.fileDirectory, this.clock);
+        this.layout = options.layout ?? 'terse';
+        this.numeric = NUMERICS[options.arithmetic ?? 'double'];
+        this.strict = options.strict ?? false;
+        this.budget = new Budget(this.clock, options.limits, options.abort);
+        this.timeSlice = options.timeSlice ?? null;
+        this.sliceStart = 0;
+        this.yielded = false;
+        this.attentionRequested = false;
+        this.debug = new Debugger();
+        this.profiler = new Profiler(options.profile);
+    }
+
+    get inStoredProgram(): boolean {
+        return this.frames.length > 0;
+    }
+
+    get currentStep(): string | undefined {
+        return this.frames[this.frames.length - 1]?.at ?? undefined;
     }
 
     output(s: string) {
-        this.stdout.write(new TextEncoder().encode(s));
+        this.paper.write(s);
+    }
+
+    // The first line of a page, e.g. 11:35   4-15-68   JRD   (1)
+    private heading(): string {
+        const now = this.clock.now();
+        return `${formatTime(now).padEnd(8)}${formatDate(now).padEnd(10)}${this.environment.initials().padEnd(6)}(${this.paper.page})\n`;
     }
 
     setVariable(s: string, v: Result) {
+        if (this.variables[s] === undefined) {
+            this.makeRoom();
+        }
         this.variables[s] = v;
         delete this.arrays[s];
     }
 
     setArray(s: string, indices: Array<number>, v: Result) {
-        (this.arrays[s] ??= new JossArray()).set(indices, v);
+        if (this.strict && indices.length > MAX_INDICES) {
+            throw new DimensionError('Please limit number of indices to 10.');
+        }
+        if (this.strict && indices.some(i => !Number.isInteger(i) || Math.abs(i) > MAX_INDEX)) {
+            throw new DomainError('Index value must be integer and |index|≤250.');
+        }
+        if (!this.arrays[s]?.has(indices)) {
+            this.makeRoom();
+        }
+        (this.arrays[s] ??= new JossArray(s)).set(indices, v);
+        delete this.variables[s];
+    }
+
+    // Let a be sparse.
+    setSparse(s: string) {
+        (this.arrays[s] ??= new JossArray(s)).sparse = true;
         delete this.variables[s];
     }
 
     setStep(part: string, stepName: string, command: Step) {
         const fullName = `${part}.${stepName}`;
         const previousStep = this.program[fullName];
+        if (!previousStep) {
+            this.makeRoom();
+        }
         this.program[fullName] = command;
 
         if (!previousStep) {
@@ -154,42 +367,498 @@ class Joss {
         }
     }
 
+    // Cells in use: one for each value, array element, formula, step and form.
+    size(): number {
+        return Object.keys(this.variables).length
+            + Object.values(this.arrays).reduce((n, a) => n + a.elements.size, 0)
+            + Object.keys(this.program).length
+            + Object.keys(this.forms).length;
+    }
+
+    private makeRoom() {
+        this.budget.store(() => this.size() + 1);
+    }
+
+    deleteStep(fullName: string) {
+        if (!this.program[fullName]) {
+            return;
+        }
+        delete this.program[fullName];
+
+        // Keep the ordered index in step with the program.
+        const part = fullName.split('.')[0];
+        this.programParts[part] = this.programParts[part].filter(s => s !== fullName);
+        if (this.programParts[part].length === 0) {
+            delete this.programParts[part];
+        }
+    }
+
+    deletePart(part: string) {
+        for (const fullName of this.programParts[part] ?? []) {
+            delete this.program[fullName];
+        }
+        delete this.programParts[part];
+    }
+
+    deleteProgram() {
+        this.program = {};
+        this.programParts = {};
+    }
+
+    deleteForm(n: number) {
+        delete this.forms[String(n)];
+    }
+
+    deleteForms() {
+        this.forms = {};
+    }
+
+    deleteFormula(s: string) {
+        if (this.variables[s] instanceof Formula) {
+            delete this.variables[s];
+        }
+    }
+
+    deleteFormulas() {
+        for (const s of Object.keys(this.variables)) {
+            this.deleteFormula(s);
+        }
+    }
+
+    // Whatever the letter is (value, array or formula).
+    deleteLetter(s: string) {
+        delete this.variables[s];
+        delete this.arrays[s];
+    }
+
+    deleteValues() {
+        for (const [s, v] of Object.entries(this.variables)) {
+            if (!(v instanceof Formula)) {
+                delete this.variables[s];
+            }
+        }
+        this.arrays = {};
+    }
+
+    deleteAll() {
+        this.deleteProgram();
+        this.deleteForms();
+        this.variables = {};
+        this.arrays = {};
+    }
+
     getStep(part: string, stepName: string): Step {
         return this.program[`${part}.${stepName}`];
     }
 
-    *getPartSteps(part: string) {
-        for (const fullName of this.programParts[part]) {
-            yield this.program[fullName];
+    // Steps are found by number rather than position, as the program
+    // can be changed while a computation is paused.
+    nextStep(part: string, after: string | null = null): string | null {
+        const afterLoc = after === null ? -Infinity : Number(after);
+        return (this.programParts[part] ?? []).find(fullName => Number(fullName) > afterLoc) ?? null;
+    }
+
+    // Do: part (or just the step only) each time again() says so. Within
+    // a program, this is picked up once the step doing it is finished;
+    // directly, it's a new computation.
+    doSteps(label: string, part: string, only: string | null, variable: string | null, again: () => boolean) {
+        const frame = {label, part, only, variable, again, at: null, ran: false, single: only !== null, timing: null};
+        if (this.inStoredProgram) {
+            this.frames.push(frame);
+        } else {
+            // Anything already paused stays that way.
+            this.resume([frame], this.suspended);
+        }
+    }
+
+    // To: carry on from there (to the end of its part) instead.
+    jump(part: string, step: string | null) {
+        if (step === null && this.nextStep(part) === null) {
+            throw new MissingStepError(`No such part: ${part}`);
+        }
+        if (step !== null && !this.program[`${part}.${step}`]) {
+            throw new MissingStepError(`No such step: ${part}.${step}`);
         }
+        const frame = this.frames[this.frames.length - 1];
+        frame.at = step === null ? this.nextStep(part) : `${part}.${step}`;
+        frame.ran = false;
+        frame.single = false;
+    }
+
+    // Done: on to the next time around.
+    done() {
+        this.frames[this.frames.length - 1].at = null;
+    }
+
+    // Quit: give up on the innermost Do altogether.
+    quitDo() {
+        this.popFrame(this.frames);
+    }
+
+    // Stop: once this step's finished.
+    pause() {
+        this.pausing = true;
+    }
+
+    // e.g. Demand, when there's no answer: Go tries the step again.
+    interrupt() {
+        this.frames[this.frames.length - 1].ran = false;
+        this.pausing = true;
+    }
+
+    // ATTN (e.g. Ctrl-C): pause before the next step, as if it had been a Stop.
+    attention() {
+        this.attentionRequested = true;
+    }
+
+    // Once a time slice is up: on with the computation where it left off
+    // (throwing any error, as eval does).
+    carryOn() {
+        this.yielded = false;
+        if (this.suspended) {
+            const {frames, outer} = this.suspended;
+            this.resume(frames, outer);
+        }
+    }
+
+    // Like carryOn, but reporting failures as evalInteractive does.
+    carryOnInteractive() {
+        this.report(() => this.carryOn());
+    }
+
+    // e.g. (Type x.) or (Do part 5.), which mustn't disturb what's
+    // paused: it's set aside until the side computation is over.
+    runParenthetic(fn: () => void) {
+        const outer = this.suspended;
+        this.suspended = null;
+        try {
+            fn();
+        } finally {
+            // (fn may well have changed it.)
+            const inner = this.suspended as Suspension | null;
+            if (inner) {
+                // It paused too, so Go carries on with it first.
+                inner.outer = outer;
+            } else {
+                this.suspended = outer;
+            }
+        }
+    }
+
+    go() {
+        if (!this.suspended) {
+            this.output('I have nothing to do.\n');
+            return;
+        }
+        const {frames, outer} = this.suspended;
+        const top = frames[frames.length - 1];
+        // Whatever stopped us there (e.g. a breakpoint) has had its say.
+        this.debug.resumingAt = top && !top.ran ? top.at : null;
+        this.resume(frames, outer);
+    }
+
+    // Step: Go, but stop again before the next step (not counting
+    // those of any Do it does, if over).
+    singleStep(over: boolean) {
+        if (this.suspended) {
+            this.debug.stepDepth = over ? this.suspended.frames.length : Infinity;
+        }
+        this.go();
+    }
+
+    // The Dos in progress (or paused), outermost first.
+    nesting(): Nesting[] {
+        const frames = this.inStoredProgram ? this.frames : this.suspended?.frames ?? [];
+        return frames.map(({label, at, variable}) => ({
+            label,
+            at,
+            variable,
+            value: variable === null ? undefined : this.variables[variable],
+        }));
+    }
+
+    // Abandon the innermost Do of the paused computation.
+    quit() {
+        if (!this.suspended) {
+            this.output('I have nothing to do.\n');
+            return;
+        }
+        const {frames, outer} = this.suspended;
+        this.popFrame(frames);
+        if (frames.length > 0) {
+            // There's still an outer Do, so wait just after the step that ran the one we quit.
+            this.output(`Done. I'm ready to go from step ${frames[frames.length - 1].at}.\n`);
+        } else {
+            this.suspended = outer;
+        }
+    }
+
+    // Abandon the paused computation (bringing back whatever it interrupted).
+    cancel() {
+        if (this.suspended) {
+            this.abandon(this.suspended.frames);
+            this.suspended = this.suspended.outer;
+        }
+    }
+
+    cancelAll() {
+        for (let s = this.suspended; s; s = s.outer) {
+            this.abandon(s.frames);
+        }
+        this.suspended = null;
+    }
+
+    // Runs a computation until it finishes (when outer, if any, is
+    // what's paused again) or pauses (in which case it's kept for Go).
+    private resume(frames: Frame[], outer: Suspension | null) {
+        const outerFrames = this.frames;
+        this.frames = frames;
+        this.suspended = outer;
+        this.sliceStart = performance.now();
+        this.pauseTimings(frames, false);
+        let result;
+        try {
+            result = this.execute();
+            if (result !== false) {
+                // Whatever's paused now (a direct Do cancels everything).
+                this.suspended = {frames, outer: this.suspended};
+                this.pauseTimings(frames, true);
+            }
+        } catch (e) {
+            // Given up on (e.g. a limit was reached).
+            this.abandon(frames);
+            throw e;
+        } finally {
+            this.pausing = false;
+            this.frames = outerFrames;
+        }
+        if (result instanceof JossError) {
+            // Paused at the step, for the caller (e.g. report) to say why.
+            throw result;
+        }
+    }
+
+    private popFrame(frames: Frame[]) {
+        const frame = frames.pop();
+        if (frame?.timing) {
+            this.profiler.done(frame.timing, this.clock.elapsed());
+        }
+    }
+
+    // The Dos won't be finished, but the steps that did them have taken
+    // this long so far.
+    private abandon(frames: Frame[]) {
+        while (frames.length > 0) {
+            this.popFrame(frames);
+        }
+    }
+
+    // When profiling, time spent paused isn't counted against the steps
+    // whose Dos are in progress.
+    private pauseTimings(frames: Frame[], pausing: boolean) {
+        const timings = frames.flatMap(({timing}) => timing ? [timing] : []);
+        if (timings.length === 0) {
+            return;
+        }
+        const now = this.clock.elapsed();
+        for (const timing of timings) {
+            if (pausing) {
+                this.profiler.pause(timing, now);
+            } else {
+                this.profiler.unpause(timing, now);
+            }
+        }
+    }
+
+    // Runs steps until there are none left (false), it's time to pause (true),
+    // or a step fails (its error, having paused so Go tries it again).
+    private execute(): boolean | JossError {
+        const frames = this.frames;
+        while (frames.length > 0) {
+            this.budget.check();
+            const frame = frames[frames.length - 1];
+            if (frame.at === null) {
+                if (!frame.again()) {
+                    // The Do's finished, so the step that did it has too.
+                    this.popFrame(frames);
+                    continue;
+                }
+                frame.at = frame.only ?? this.nextStep(frame.part);
+                frame.ran = false;
+                frame.single = frame.only !== null;
+                if (frame.at === null) {
+                    // Nothing in the part.
+                    continue;
+                }
+            } else if (frame.ran) {
+                frame.at = frame.single ? null : this.nextStep(frame.at.split('.')[0], frame.at);
+                frame.ran = false;
+                continue;
+            }
+
+            const fullName = frame.at!;
+            if (this.attentionRequested) {
+                this.attentionRequested = false;
+                this.output(`I'm at step ${fullName}.\n`);
+                return true;
+            }
+            const stop = this.debug.before(this, fullName, frames.length);
+            if (stop !== null) {
+                this.output(`${stop}\n`);
+                return true;
+            }
+            const step = this.program[fullName];
+            frame.ran = true;
+            if (!step) {
+                // Deleted while we were paused.
+                continue;
+            }
+
+            const depth = frames.length;
+            const timing = this.profiler.enabled ? this.profiler.begin(fullName, this.clock.elapsed()) : null;
+            try {
+                this.budget.step();
+                step.exec(this);
+            } catch (e) {
+                if (!(e instanceof JossError)) {
+                    throw e;
+                }
+                e.step ??= fullName;
+                if (e instanceof LimitError) {
+                    // No going on from here.
+                    throw e;
+                }
+                // Wait for it to be fixed, then Go tries the step again.
+                frame.ran = false;
+                return e;
+            } finally {
+                if (timing) {
+                    const doing = frames.length > depth;
+                    this.profiler.ran(timing, this.clock.elapsed(), doing);
+                    if (doing) {
+                        frames[frames.length - 1].timing = timing;
+                    }
+                }
+            }
+
+            if (this.pausing) {
+                this.pausing = false;
+                return true;
+            }
+            if (this.timeSlice !== null && performance.now() - this.sliceStart >= this.timeSlice) {
+                // Not really paused: the host will carry on once it's had a look in.
+                this.yielded = true;
+                return true;
+            }
+        }
+        return false;
+    }
+
+    resetTimer() {
+        this.timerStart = this.clock.now().getTime();
+    }
+
+    getFile(): JossFile {
+        if (!this.file) {
+            throw new JossError('I have no file for you.');
+        }
+        return this.file;
+    }
+
+    setForm(n: number, form: Form) {
+        if (!this.forms[String(n)]) {
+            this.makeRoom();
+        }
+        this.forms[String(n)] = form;
+    }
+
+    getForm(n: number): Form {
+        const form = this.forms[String(n)];
+        if (!form) {
+            throw new MissingDefinitionError(`No such form: ${n}`);
+        }
+        return form;
     }
 
     get(s: string): Result {
         if (this.variables[s] !== undefined) {
             return this.variables[s];
         } else if (this.arrays[s]) {
-            return this.arrays[s].get.bind(this.arrays[s]);
+            return Object.assign(this.arrays[s].get.bind(this.arrays[s]), {array: s});
+        } else if (SPECIAL_VALUES[s]) {
+            return SPECIAL_VALUES[s](this);
         } else if (FUNCTIONS[s]) {
             return FUNCTIONS[s];
         } else {
-            throw new Error(`No such variable: ${s}`);
+            throw new UndefinedValueError(s);
         }
     }
 
+    // i.e. whether get would find it.
+    isDefined(s: string): boolean {
+        return this.variables[s] !== undefined || this.arrays[s] !== undefined
+            || SPECIAL_VALUES[s] !== undefined || FUNCTIONS[s] !== undefined;
+    }
+
+    // i.e. users, unless there's a value of that name: like time, it's
+    // typed as a reading, whereas timer is typed as any other value.
+    isReading(s: string): boolean {
+        return s === 'users' && this.variables[s] === undefined && this.arrays[s] === undefined;
+    }
+
     eval(s: string) {
         for (const input of s.split('\n')) {
             this.eval_line(input);
         }
     }
 
-    private eval_line(s: string) {
+    /**
+     * Like eval, but reports failures the way JOSS does rather than throwing,
+     * so a console session can carry on afterwards.
+     */
+    evalInteractive(s: string) {
+        for (const input of s.split('\n')) {
+            this.report(() => this.eval_line(input));
+        }
+    }
+
+    // The lines of an item from the file, as if typed in, except that
+    // they're all one command: the first to fail stops the rest.
+    load(s: string) {
+        for (const input of s.split('\n')) {
+            this.budget.check();
+            this.eval_line(input, false);
+        }
+    }
+
+    private report(fn: () => void) {
         try {
-            parse(tokenise(s)).eval(this);
+            fn();
         } catch (e) {
-            if (e instanceof TerminateProgramException) {
-                return;
+            if (e instanceof JossError) {
+                this.output(`${e.describe()}\n`);
+            } else {
+                // Something we didn't anticipate; all we can do is ask again.
+                this.output('Sorry. Say again:\n');
             }
-            throw e;
         }
     }
+
+    private eval_line(s: string, fresh: boolean = true) {
+        if (fresh && !this.inStoredProgram) {
+            // A new command, so a new budget (and any ATTN was for the last one).
+            this.budget.start();
+            this.attentionRequested = false;
+            this.yielded = false;
+            this.debug.stepDepth = null;
+        }
+        if (this.pendingForm !== null) {
+            const n = this.pendingForm;
+            this.pendingForm = null;
+            this.setForm(n, new Form(s));
+            return;
+        }
+
+        parse(tokenise(s)).eval(this);
+    }
 }
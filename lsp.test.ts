@@ -0,0 +1,267 @@
+import { test, expect } from 'bun:test';
+
+import { FUNCTIONS } from './joss.ts';
+import {
+  LanguageServer, Message, MessageReader, PublishDiagnosticsParams, InitializeResult, Hover, DocumentSymbol,
+  BUILTIN_HELP, SEMANTIC_TOKEN_TYPES, encodeMessage, serve,
+} from './lsp.ts';
+
+const URI = 'file:///loan.joss';
+
+const PROGRAM = [
+  '* Loan payments',
+  'Let f(x)=x·r.',
+  '1.1 Set a=f(2).',
+  '1.2 Do part 2.',
+  '1.3 To step 1.5.',
+  '  1.4 Type q.',
+  '1.5 Done.',
+  '2.1 Type dp(a), xp(a).',
+  'Form 1:',
+  '___.__',
+  'To step 1.1.',
+  'Type )(.',
+].join('\n');
+
+// Talks to a server as an editor would, but in-process.
+class Client {
+  server: LanguageServer;
+  sent: Message[] = [];
+  private id = 0;
+
+  constructor() {
+    this.server = new LanguageServer(message => this.sent.push(message));
+  }
+
+  request(method: string, params: object = {}): Message {
+    const id = ++this.id;
+    this.server.receive({jsonrpc: '2.0', id, method, params});
+    return this.sent.find(m => m.id === id)!;
+  }
+
+  notify(method: string, params: object = {}) {
+    this.server.receive({jsonrpc: '2.0', method, params});
+  }
+
+  open(text: string = PROGRAM) {
+    this.notify('textDocument/didOpen', {textDocument: {uri: URI, languageId: 'joss', version: 1, text}});
+  }
+
+  // What was last published for the document.
+  diagnostics(): PublishDiagnosticsParams['diagnostics'] {
+    const published = this.sent
+      .filter(m => m.method === 'textDocument/publishDiagnostics')
+      .map(m => m.params as PublishDiagnosticsParams)
+      .filter(p => p.uri === URI);
+    return published[published.length - 1].diagnostics;
+  }
+
+  at(method: string, line: number, character: number): unknown {
+    return this.request(method, {textDocument: {uri: URI}, position: {line, character}}).result;
+  }
+}
+
+function range(line: number, start: number, end: number, endLine: number = line) {
+  return {start: {line, character: start}, end: {line: endLine, character: end}};
+}
+
+test('initialize says what the server can do', () => {
+  const result = new Client().request('initialize', {capabilities: {}}).result as InitializeResult;
+  expect(result.capabilities.textDocumentSync).toBe(1);
+  expect(result.capabilities.hoverProvider).toBe(true);
+  expect(result.capabilities.definitionProvider).toBe(true);
+  expect(result.capabilities.documentSymbolProvider).toBe(true);
+  expect(result.capabilities.semanticTokensProvider.legend.tokenTypes).toEqual(SEMANTIC_TOKEN_TYPES);
+});
+
+test('opening a document publishes its diagnostics, line by line', () => {
+  const client = new Client();
+  client.open();
+  expect(client.diagnostics()).toEqual([
+    {range: range(1, 11, 12), severity: 2, source: 'joss', message: 'r is never set.'},
+    {range: range(5, 11, 12), severity: 2, source: 'joss', message: 'q is never set.'},
+    {range: range(5, 2, 13), severity: 2, source: 'joss', message: 'Can never be reached.'},
+    {range: range(10, 0, 12), severity: 1, source: 'joss', message: 'To command can only be used in stored programs'},
+    {range: range(11, 5, 6), severity: 1, source: 'joss', message: 'Can\'t type )'},
+  ]);
+});
+
+test('changes are checked again, and closing clears the diagnostics', () => {
+  const client = new Client();
+  client.open();
+  client.notify('textDocument/didChange', {
+    textDocument: {uri: URI, version: 2},
+    contentChanges: [{text: 'Set r=1.\r\n1.1 Do part 3.\r\n1.2 Type f(1, 2).\r\nLet f(x)=x·r.'}],
+  });
+  expect(client.diagnostics()).toEqual([
+    {range: range(1, 0, 14), severity: 1, source: 'joss', message: 'No such part: 3'},
+    {range: range(2, 9, 16), severity: 1, source: 'joss', message: 'Formula f needs 1 argument.'},
+  ]);
+  client.notify('textDocument/didClose', {textDocument: {uri: URI}});
+  expect(client.diagnostics()).toEqual([]);
+});
+
+test('hovering over a built-in function explains it', () => {
+  const client = new Client();
+  client.open();
+  expect(client.at('textDocument/hover', 7, 10)).toEqual({
+    contents: {kind: 'markdown', value: 'dp(x): the digit part of x, e.g. dp(123.4) = 1.234.'},
+    range: range(7, 9, 11),
+  });
+  expect((client.at('textDocument/hover', 7, 16) as Hover).contents.value).toStartWith('xp(x)');
+  // A variable, a formula of our own, and a keyword.
+  expect(client.at('textDocument/hover', 7, 12)).toBeNull();
+  expect(client.at('textDocument/hover', 2, 10)).toBeNull();
+  expect(client.at('textDocument/hover', 2, 4)).toBeNull();
+});
+
+test('every built-in function has hover text', () => {
+  expect(Object.keys(FUNCTIONS).filter(name => !BUILTIN_HELP[name])).toEqual([]);
+});
+
+test('go to definition from Do and To to their steps', () => {
+  const client = new Client();
+  client.open();
+  // Do part 2 (on the part number, or the Do itself) goes to the first step of the part.
+  expect(client.at('textDocument/definition', 3, 12)).toEqual({uri: URI, range: range(7, 0, 22)});
+  expect(client.at('textDocument/definition', 3, 4)).toEqual({uri: URI, range: range(7, 0, 22)});
+  expect(client.at('textDocument/definition', 4, 13)).toEqual({uri: URI, range: range(6, 0, 9)});
+  // The direct To is still a To.
+  expect(client.at('textDocument/definition', 10, 9)).toEqual({uri: URI, range: range(2, 0, 15)});
+});
+
+test('go to definition from a formula to its Let', () => {
+  const client = new Client();
+  client.open();
+  expect(client.at('textDocument/definition', 2, 10)).toEqual({uri: URI, range: range(1, 0, 13)});
+  // Only formulas have definitions.
+  expect(client.at('textDocument/definition', 2, 8)).toBeNull();
+  expect(client.at('textDocument/definition', 7, 10)).toBeNull();
+});
+
+test('the outline groups steps by part', () => {
+  const client = new Client();
+  client.open(PROGRAM + '\n1.15 Type a.\n1.1 Set a=f(3).');
+  const symbols = client.request('textDocument/documentSymbol', {textDocument: {uri: URI}}).result as DocumentSymbol[];
+  expect(symbols.map(s => [s.name, s.kind])).toEqual([['f(x)', 12], ['Part 1', 3], ['Part 2', 3], ['Form 1', 23]]);
+  // Only the last of a step counts, and they're in order.
+  const part1 = symbols[1];
+  expect(part1.children!.map(s => [s.name, s.detail])).toEqual([
+    ['Step 1.1', 'Set a=f(3)'],
+    ['Step 1.15', 'Type a'],
+    ['Step 1.2', 'Do part 2'],
+    ['Step 1.3', 'To step 1.5'],
+    ['Step 1.4', 'Type q'],
+    ['Step 1.5', 'Done'],
+  ]);
+  expect(part1.range).toEqual(range(3, 0, 15, 13));
+  expect(symbols[3].range).toEqual(range(8, 0, 6, 9));
+});
+
+test('semantic tokens cover keywords, names, numbers, strings and comments', () => {
+  const client = new Client();
+  client.open('* Totals\n  1.1 Type "x", sum(i=1(1)n: f(i)).\nLet f(x)=x+1.\nForm 2:\n__.__');
+  const {data} = client.request('textDocument/semanticTokens/full', {textDocument: {uri: URI}}).result as {data: number[]};
+  const tokens = [];
+  let line = 0;
+  let start = 0;
+  for (let i = 0; i < data.length; i += 5) {
+    line += data[i];
+    start = data[i] === 0 ? start + data[i + 1] : data[i + 1];
+    tokens.push([line, start, data[i + 2], SEMANTIC_TOKEN_TYPES[data[i + 3]]]);
+  }
+  expect(tokens).toEqual([
+    [0, 0, 8, 'comment'],
+    [1, 2, 3, 'number'],
+    [1, 6, 4, 'keyword'],
+    [1, 11, 3, 'string'],
+    [1, 16, 3, 'function'],
+    [1, 20, 1, 'variable'],
+    [1, 21, 1, 'operator'],
+    [1, 22, 1, 'number'],
+    [1, 24, 1, 'number'],
+    [1, 26, 1, 'variable'],
+    [1, 29, 1, 'function'],
+    [1, 31, 1, 'variable'],
+    [2, 0, 3, 'keyword'],
+    [2, 4, 1, 'function'],
+    [2, 6, 1, 'variable'],
+    [2, 8, 1, 'operator'],
+    [2, 9, 1, 'variable'],
+    [2, 10, 1, 'operator'],
+    [2, 11, 1, 'number'],
+    [3, 0, 4, 'keyword'],
+    [3, 5, 1, 'number'],
+    [4, 0, 5, 'string'],
+  ]);
+});
+
+test('unknown requests are errors, and requests after shutdown are refused', () => {
+  const client = new Client();
+  expect(client.request('textDocument/rename').error?.code).toBe(-32601);
+  expect(client.request('textDocument/hover', {textDocument: {uri: 'file:///missing.joss'}, position: {line: 0, character: 0}}).error?.code).toBe(-32600);
+  expect(client.request('shutdown')).toEqual({jsonrpc: '2.0', id: 3, result: null});
+  expect(client.request('textDocument/documentSymbol').error?.code).toBe(-32600);
+  client.notify('exit');
+  expect(client.server.exitCode).toBe(0);
+});
+
+test('messages are framed by their length, however they arrive', () => {
+  const message: Message = {jsonrpc: '2.0', id: 1, method: 'initialize', params: {name: '√·↑'}};
+  const bytes = encodeMessage(message);
+  // The length is in bytes, not characters.
+  const body = new TextEncoder().encode(JSON.stringify(message));
+  expect(new TextDecoder().decode(bytes)).toBe(`Content-Length: ${body.length}\r\n\r\n${JSON.stringify(message)}`);
+
+  const reader = new MessageReader();
+  const twice = new Uint8Array([...bytes, ...bytes]);
+  expect(reader.push(twice.subarray(0, 10))).toEqual([]);
+  expect(reader.push(twice.subarray(10, bytes.length + 5))).toEqual([message]);
+  expect(reader.push(twice.subarray(bytes.length + 5))).toEqual([message]);
+});
+
+test('serve runs the server over a stream until exit', async () => {
+  const written: Message[] = [];
+  const reader = new MessageReader();
+  async function *input() {
+    yield encodeMessage({jsonrpc: '2.0', id: 1, method: 'initialize', params: {}});
+    yield encodeMessage({jsonrpc: '2.0', method: 'textDocument/didOpen', params: {textDocument: {uri: URI, text: 'Type x.'}}});
+    yield encodeMessage({jsonrpc: '2.0', id: 2, method: 'shutdown'});
+    yield encodeMessage({jsonrpc: '2.0', method: 'exit'});
+    yield encodeMessage({jsonrpc: '2.0', id: 3, method: 'shutdown'});
+  }
+  const code = await serve(input(), {write: chunk => written.push(...reader.push(chunk))});
+  expect(code).toBe(0);
+  expect(written.map(m => m.id ?? m.method)).toEqual([1, 'textDocument/publishDiagnostics', 2]);
+  expect((written[1].params as PublishDiagnosticsParams).diagnostics[0].message).toBe('x is never set.');
+});
+
+test('a notification that goes wrong is logged, and the server carries on', () => {
+  const client = new Client();
+  client.notify('textDocument/didOpen', {});
+  expect(client.sent).toEqual([{jsonrpc: '2.0', method: 'window/logMessage', params: {type: 1, message: expect.stringMatching(/^Couldn't handle textDocument\/didOpen: TypeError/)}}]);
+  client.open();
+  expect(client.diagnostics()).toHaveLength(5);
+  expect(client.request('textDocument/hover', {}).error?.code).toBe(-32603);
+});
+
+test('messages that make no sense are logged and dropped', async () => {
+  const written: Message[] = [];
+  const reader = new MessageReader();
+  const garbage = new TextEncoder().encode('Content-Length: 7\r\n\r\n{"id":1');
+  async function *input() {
+    yield new Uint8Array([...garbage, ...new TextEncoder().encode('Content-Type: joss\r\n\r\n')]);
+    yield encodeMessage({jsonrpc: '2.0', id: 1, method: 'initialize', params: {}});
+    yield new TextEncoder().encode('Content-Length: 4\r\n\r\nnull');
+    yield encodeMessage({jsonrpc: '2.0', id: 2, method: 'shutdown'});
+    yield encodeMessage({jsonrpc: '2.0', method: 'exit'});
+  }
+  const code = await serve(input(), {write: chunk => written.push(...reader.push(chunk))});
+  expect(code).toBe(0);
+  expect(written.map(m => m.id ?? m.method)).toEqual(['window/logMessage', 'window/logMessage', 1, 'window/logMessage', 2]);
+  expect(written.filter(m => m.method).map(m => (m.params as {message: string}).message)).toEqual([
+    expect.stringMatching(/^Bad message: JSON Parse error/),
+    'Bad message: No Content-Length in header: Content-Type: joss',
+    'Bad message: Not a message: null',
+  ]);
+});
@@ -0,0 +1,578 @@
+export {LanguageServer, MessageReader, encodeMessage, serve, SEMANTIC_TOKEN_TYPES, BUILTIN_HELP};
+export type {Message, PublishDiagnosticsParams, InitializeResult, Hover, DocumentSymbol};
+
+import { Joss, FUNCTIONS, Writer } from './joss.ts';
+import { Token, TokenType, tokenise } from './tokenise.ts';
+import { JossError } from './exceptions.ts';
+import { checkSource } from './checker.ts';
+import { parse, Command, StoredCommand, FormDefinition, ParentheticCommand, Let, Do, To } from './command.ts';
+
+// A JSON-RPC request, response or notification.
+interface Message {
+    jsonrpc: '2.0';
+    id?: number | string | null;
+    method?: string;
+    params?: unknown;
+    result?: unknown;
+    error?: {code: number, message: string};
+}
+
+interface Position {
+    line: number;
+    character: number;
+}
+
+interface Range {
+    start: Position;
+    end: Position;
+}
+
+interface Location {
+    uri: string;
+    range: Range;
+}
+
+// What comes with the requests and notifications we handle.
+interface TextDocumentParams {
+    textDocument: {uri: string};
+}
+
+interface TextDocumentPositionParams extends TextDocumentParams {
+    position: Position;
+}
+
+interface DidOpenParams {
+    textDocument: {uri: string, text: string};
+}
+
+interface DidChangeParams extends TextDocumentParams {
+    // Each the whole text, as we ask for.
+    contentChanges: {text: string}[];
+}
+
+interface Diagnostic {
+    range: Range;
+    severity: number;
+    source: string;
+    message: string;
+}
+
+interface PublishDiagnosticsParams {
+    uri: string;
+    diagnostics: Diagnostic[];
+}
+
+interface InitializeResult {
+    capabilities: {
+        textDocumentSync: number;
+        hoverProvider: boolean;
+        definitionProvider: boolean;
+        documentSymbolProvider: boolean;
+        semanticTokensProvider: {legend: {tokenTypes: string[], tokenModifiers: string[]}, full: boolean};
+    };
+    serverInfo: {name: string};
+}
+
+interface Hover {
+    contents: {kind: 'markdown', value: string};
+    range: Range;
+}
+
+interface DocumentSymbol {
+    name: string;
+    detail?: string;
+    kind: number;
+    range: Range;
+    selectionRange: Range;
+    children?: DocumentSymbol[];
+}
+
+// The LSP's numbers for these.
+const SEVERITY = {error: 1, warning: 2};
+const MESSAGE_TYPE = {error: 1};
+const SYMBOL_KIND = {namespace: 3, method: 6, function: 12, struct: 23};
+const METHOD_NOT_FOUND = -32601;
+const INVALID_REQUEST = -32600;
+const INTERNAL_ERROR = -32603;
+
+const SEMANTIC_TOKEN_TYPES = ['keyword', 'variable', 'function', 'number', 'string', 'operator', 'comment'];
+
+// What the built-in functions do, for hovering over them.
+const BUILTIN_HELP: Record<string, string> = {
+    sgn: 'sgn(x): the sign of x (-1, 0 or 1).',
+    ip: 'ip(x): the integer part of x, e.g. ip(-2.7) = -2.',
+    fp: 'fp(x): the fraction part of x, e.g. fp(-2.7) = -.7.',
+    dp: 'dp(x): the digit part of x, e.g. dp(123.4) = 1.234.',
+    xp: 'xp(x): the exponent part of x, e.g. xp(123.4) = 2.',
+    sqrt: 'sqrt(x): the square root of x (which mustn\'t be negative).',
+    sin: 'sin(x): the sine of x (in radians).',
+    cos: 'cos(x): the cosine of x (in radians).',
+    log: 'log(x): the natural logarithm of x (which must be positive).',
+    exp: 'exp(x): e to the power x.',
+    arg: 'arg(x,y): the angle (in radians) of the point (x,y).',
+    sum: 'sum(a,b,...) or sum(i=range: x): the sum of the values.',
+    prod: 'prod(a,b,...) or prod(i=range: x): the product of the values.',
+    min: 'min(a,b,...) or min(i=range: x): the smallest of the values.',
+    max: 'max(a,b,...) or max(i=range: x): the largest of the values.',
+    conj: 'conj(p,q,...) or conj(i=range: p): true if they all are.',
+    disj: 'disj(p,q,...) or disj(i=range: p): true if any of them is.',
+    tv: 'tv(x): the truth value as a number (1 or 0), or a number as a truth value (true unless 0).',
+};
+
+// One line of a document, as far as it can be made out.
+interface Line {
+    text: string;
+    // The tokens' offsets are into the trimmed line, which starts here.
+    indent: number;
+    tokens: Token[];
+    // null if it's a form, or can't be understood.
+    parsed: ReturnType<typeof parse> | null;
+    // i.e. the line after Form n:
+    isForm: boolean;
+}
+
+function commandOf(parsed: Line['parsed']): Command | null {
+    if (parsed instanceof StoredCommand || parsed instanceof ParentheticCommand) {
+        return parsed.command;
+    }
+    return parsed instanceof Command ? parsed : null;
+}
+
+// An open .joss file.
+class Document {
+    uri: string;
+    lines: Line[];
+    // Where each step (as last typed) and formula (by its Let) is.
+    steps: Map<string, number>;
+    formulas: Map<string, number>;
+
+    constructor(uri: string, text: string) {
+        this.uri = uri;
+        this.lines = [];
+        this.steps = new Map();
+        this.formulas = new Map();
+
+        let isForm = false;
+        text.split(/\r?\n/).forEach((text, i) => {
+            const tokens = [];
+            const it = tokenise(text);
+            for (let token = it.next(); token.type !== TokenType.END; token = it.next()) {
+                tokens.push(token);
+            }
+            let parsed = null;
+            if (!isForm) {
+                try {
+                    parsed = parse(tokenise(text));
+                } catch (e) {
+                    if (!(e instanceof JossError)) {
+                        throw e;
+                    }
+                }
+            }
+            this.lines.push({text, indent: text.length - text.trimStart().length, tokens, parsed, isForm});
+            isForm = parsed instanceof FormDefinition;
+
+            if (parsed instanceof StoredCommand) {
+                this.steps.set(`${parsed.part}.${parsed.step}`, i);
+            }
+            const verb = commandOf(parsed)?.verb;
+            if (verb instanceof Let) {
+                this.formulas.set(verb.target.v, i);
+            }
+        });
+    }
+
+    get text(): string {
+        return this.lines.map(l => l.text).join('\n');
+    }
+
+    diagnostics(joss: Joss): Diagnostic[] {
+        return checkSource(joss, this.text).map(d => {
+            const line = d.line! - 1;
+            const {indent} = this.lines[line];
+            return {
+                range: d.span === null ? this.lineRange(line) : this.range(line, indent + d.span.start, indent + d.span.end),
+                severity: SEVERITY[d.severity],
+                source: 'joss',
+                message: d.message,
+            };
+        });
+    }
+
+    hover({line, character}: Position): Hover | null {
+        const token = this.tokenAt(line, character);
+        if (token?.type !== TokenType.VAR || FUNCTIONS[token.raw] === undefined || !BUILTIN_HELP[token.raw]) {
+            return null;
+        }
+        const {indent} = this.lines[line];
+        return {
+            contents: {kind: 'markdown', value: BUILTIN_HELP[token.raw]},
+            range: this.range(line, indent + token.start, indent + token.end),
+        };
+    }
+
+    // From a Do or To to the step it starts at, or from a formula to its Let.
+    definition({line, character}: Position): Location | null {
+        const token = this.tokenAt(line, character);
+        if (!token) {
+            return null;
+        }
+        const {tokens, parsed} = this.lines[line];
+        const verb = commandOf(parsed)?.verb;
+        const previous = tokens[tokens.indexOf(token) - 1];
+        const onTarget = ['Do', 'To', 'step', 'part'].includes(token.raw)
+            || (token.type === TokenType.NUM && ['step', 'part'].includes(previous?.raw));
+        let at;
+        if ((verb instanceof Do || verb instanceof To) && onTarget) {
+            at = verb.step === null ? this.firstStep(verb.part) : this.steps.get(`${verb.part}.${verb.step}`);
+        } else if (token.type === TokenType.VAR) {
+            at = this.formulas.get(token.raw);
+        }
+        return at === undefined ? null : {uri: this.uri, range: this.lineRange(at)};
+    }
+
+    // Each part's steps (in order), and the formulas and forms defined directly.
+    symbols(): DocumentSymbol[] {
+        const symbols: DocumentSymbol[] = [];
+        const parts = new Map<string, DocumentSymbol>();
+        this.lines.forEach(({parsed}, i) => {
+            if (parsed instanceof StoredCommand) {
+                const step = `${parsed.part}.${parsed.step}`;
+                if (this.steps.get(step) !== i) {
+                    // Typed again later.
+                    return;
+                }
+                let part = parts.get(parsed.part);
+                if (!part) {
+                    part = {name: `Part ${parsed.part}`, kind: SYMBOL_KIND.namespace, range: this.lineRange(i), selectionRange: this.lineRange(i), children: []};
+                    parts.set(parsed.part, part);
+                    symbols.push(part);
+                }
+                part.children!.push({name: `Step ${step}`, detail: `${parsed.command}`, kind: SYMBOL_KIND.method, range: this.lineRange(i), selectionRange: this.lineRange(i)});
+                part.range = {start: part.range.start, end: this.lineRange(i).end};
+            } else if (parsed instanceof Command && parsed.verb instanceof Let) {
+                const {target, argNames} = parsed.verb;
+                const name = argNames.length === 0 ? target.v : `${target.v}(${argNames.join(',')})`;
+                symbols.push({name, detail: `${parsed.verb.expression}`, kind: SYMBOL_KIND.function, range: this.lineRange(i), selectionRange: this.lineRange(i)});
+            } else if (parsed instanceof FormDefinition) {
+                const end = this.lineRange(Math.min(i + 1, this.lines.length - 1)).end;
+                symbols.push({name: `Form ${parsed.n}`, kind: SYMBOL_KIND.struct, range: {start: this.lineRange(i).start, end}, selectionRange: this.lineRange(i)});
+            }
+        });
+        for (const part of parts.values()) {
+            part.children!.sort((a, b) => Number(a.name.slice('Step '.length)) - Number(b.name.slice('Step '.length)));
+        }
+        return symbols;
+    }
+
+    // As LSP has them: each token's line and start relative to the one
+    // before, then its length and type (and no modifiers).
+    semanticTokens(): number[] {
+        const data: number[] = [];
+        let previousLine = 0;
+        let previousStart = 0;
+        const push = (line: number, start: number, length: number, type: string) => {
+            data.push(line - previousLine, line === previousLine ? start - previousStart : start, length, SEMANTIC_TOKEN_TYPES.indexOf(type), 0);
+            previousLine = line;
+            previousStart = start;
+        };
+
+        this.lines.forEach(({text, indent, tokens, isForm}, i) => {
+            const trimmed = text.trim();
+            if (isForm || trimmed.startsWith('*') || trimmed.endsWith('*')) {
+                if (trimmed !== '') {
+                    push(i, indent, trimmed.length, isForm ? 'string' : 'comment');
+                }
+                return;
+            }
+            for (const token of tokens) {
+                const type = this.tokenType(token);
+                if (type !== null) {
+                    push(i, indent + token.start, token.end - token.start, type);
+                }
+            }
+        });
+        return data;
+    }
+
+    private tokenType({type, raw}: Token): string | null {
+        switch (type) {
+            case TokenType.ID:
+                return 'keyword';
+            case TokenType.VAR:
+                return FUNCTIONS[raw] !== undefined || this.formulas.has(raw) ? 'function' : 'variable';
+            case TokenType.NUM:
+                return 'number';
+            case TokenType.STR:
+                return 'string';
+            case TokenType.OP:
+                return 'operator';
+            default:
+                return null;
+        }
+    }
+
+    private firstStep(part: string): number | undefined {
+        const steps = [...this.steps.keys()].filter(step => step.split('.')[0] === part);
+        steps.sort((a, b) => Number(a) - Number(b));
+        return steps.length === 0 ? undefined : this.steps.get(steps[0]);
+    }
+
+    // The one under the cursor (which may be just after it).
+    private tokenAt(line: number, character: number): Token | undefined {
+        const l = this.lines[line];
+        if (!l || l.isForm) {
+            return undefined;
+        }
+        const offset = character - l.indent;
+        return l.tokens.find(t => t.start <= offset && offset < t.end) ?? l.tokens.find(t => t.end === offset);
+    }
+
+    private range(line: number, start: number, end: number): Range {
+        return {start: {line, character: start}, end: {line, character: end}};
+    }
+
+    private lineRange(line: number): Range {
+        const {text, indent} = this.lines[line];
+        return this.range(line, indent, Math.max(indent, text.trimEnd().length));
+    }
+}
+
+// A request that can't be answered.
+class ResponseError extends Error {
+    code: number;
+
+    constructor(code: number, message: string) {
+        super(message);
+        this.code = code;
+    }
+}
+
+// Answers an editor's requests about the .joss files it has open,
+// sending responses (and diagnostics) back through send.
+class LanguageServer {
+    send: (message: Message) => void;
+    documents: Map<string, Document>;
+    // For the checker, which only needs to know what's built in.
+    joss: Joss;
+    shuttingDown: boolean;
+    // Once told to exit: 0 if it was shut down first, as it should have been.
+    exitCode: number | null;
+
+    constructor(send: (message: Message) => void) {
+        this.send = send;
+        this.documents = new Map();
+        this.joss = new Joss({readLine: () => null}, {write: () => {}});
+        this.shuttingDown = false;
+        this.exitCode = null;
+    }
+
+    receive(message: Message) {
+        const {id, method, params} = message;
+        if (method === undefined) {
+            // A response, but we never ask anything.
+            return;
+        }
+        if (id === undefined) {
+            // There's no answering a notification, even to say it went wrong.
+            try {
+                this.notify(method, params);
+            } catch (e) {
+                this.log(`Couldn't handle ${method}: ${e}`);
+            }
+            return;
+        }
+        try {
+            if (this.shuttingDown) {
+                throw new ResponseError(INVALID_REQUEST, 'Shutting down');
+            }
+            this.send({jsonrpc: '2.0', id, result: this.request(method, params) ?? null});
+        } catch (e) {
+            const error = e instanceof ResponseError ? {code: e.code, message: e.message} : {code: INTERNAL_ERROR, message: String(e)};
+            this.send({jsonrpc: '2.0', id, error});
+        }
+    }
+
+    // In the editor's log (e.g. for a message there's no replying to).
+    log(message: string) {
+        this.send({jsonrpc: '2.0', method: 'window/logMessage', params: {type: MESSAGE_TYPE.error, message}});
+    }
+
+    private request(method: string, params: unknown): unknown {
+        switch (method) {
+            case 'initialize': {
+                const result: InitializeResult = {
+                    capabilities: {
+                        // Full text each time.
+                        textDocumentSync: 1,
+                        hoverProvider: true,
+                        definitionProvider: true,
+                        documentSymbolProvider: true,
+                        semanticTokensProvider: {legend: {tokenTypes: SEMANTIC_TOKEN_TYPES, tokenModifiers: []}, full: true},
+                    },
+                    serverInfo: {name: 'joss'},
+                };
+                return result;
+            }
+            case 'shutdown':
+                this.shuttingDown = true;
+                return null;
+            case 'textDocument/hover': {
+                const {position} = params as TextDocumentPositionParams;
+                return this.document(params as TextDocumentParams).hover(position);
+            }
+            case 'textDocument/definition': {
+                const {position} = params as TextDocumentPositionParams;
+                return this.document(params as TextDocumentParams).definition(position);
+            }
+            case 'textDocument/documentSymbol':
+                return this.document(params as TextDocumentParams).symbols();
+            case 'textDocument/semanticTokens/full':
+                return {data: this.document(params as TextDocumentParams).semanticTokens()};
+            default:
+                throw new ResponseError(METHOD_NOT_FOUND, `Unhandled method ${method}`);
+        }
+    }
+
+    private notify(method: string, params: unknown) {
+        switch (method) {
+            case 'textDocument/didOpen': {
+                const {textDocument} = params as DidOpenParams;
+                this.open(textDocument.uri, textDocument.text);
+                break;
+            }
+            case 'textDocument/didChange': {
+                const {textDocument, contentChanges} = params as DidChangeParams;
+                this.open(textDocument.uri, contentChanges[contentChanges.length - 1].text);
+                break;
+            }
+            case 'textDocument/didClose': {
+                const {textDocument} = params as TextDocumentParams;
+                this.documents.delete(textDocument.uri);
+                this.publish(textDocument.uri, []);
+                break;
+            }
+            case 'exit':
+                this.exitCode = this.shuttingDown ? 0 : 1;
+                break;
+            default:
+                // e.g. initialized, which needs nothing doing.
+                break;
+        }
+    }
+
+    private open(uri: string, text: string) {
+        const document = new Document(uri, text);
+        this.documents.set(uri, document);
+        this.publish(uri, document.diagnostics(this.joss));
+    }
+
+    private publish(uri: string, diagnostics: Diagnostic[]) {
+        const params: PublishDiagnosticsParams = {uri, diagnostics};
+        this.send({jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params});
+    }
+
+    private document({textDocument}: TextDocumentParams): Document {
+        const document = this.documents.get(textDocument.uri);
+        if (!document) {
+            throw new ResponseError(INVALID_REQUEST, `No such document: ${textDocument.uri}`);
+        }
+        return document;
+    }
+}
+
+// Messages come with a header giving their length, e.g. Content-Length: 52
+function encodeMessage(message: Message): Uint8Array {
+    const body = new TextEncoder().encode(JSON.stringify(message));
+    const header = new TextEncoder().encode(`Content-Length: ${body.length}\r\n\r\n`);
+    const bytes = new Uint8Array(header.length + body.length);
+    bytes.set(header);
+    bytes.set(body, header.length);
+    return bytes;
+}
+
+// Splits what comes in (in whatever chunks) back into messages.
+class MessageReader {
+    private buffer: Uint8Array;
+    // Told about a message that's no good (which is dropped) before going on.
+    private onError: (e: Error) => void;
+
+    constructor(onError: (e: Error) => void = e => { throw e; }) {
+        this.buffer = new Uint8Array(0);
+        this.onError = onError;
+    }
+
+    // Whatever messages are now complete.
+    push(chunk: Uint8Array): Message[] {
+        const buffer = new Uint8Array(this.buffer.length + chunk.length);
+        buffer.set(this.buffer);
+        buffer.set(chunk, this.buffer.length);
+        this.buffer = buffer;
+
+        const messages = [];
+        while (true) {
+            const headerEnd = this.headerEnd();
+            if (headerEnd === -1) {
+                break;
+            }
+            const header = new TextDecoder().decode(this.buffer.subarray(0, headerEnd));
+            const length = Number(/Content-Length: *([0-9]+)/i.exec(header)?.[1]);
+            const start = headerEnd + 4;
+            if (!Number.isInteger(length)) {
+                // Without a length there's no knowing where the body ends,
+                // so on to the next header.
+                this.buffer = this.buffer.slice(start);
+                this.onError(new Error(`No Content-Length in header: ${header}`));
+                continue;
+            }
+            if (this.buffer.length < start + length) {
+                break;
+            }
+            const body = new TextDecoder().decode(this.buffer.subarray(start, start + length));
+            this.buffer = this.buffer.slice(start + length);
+            let message;
+            try {
+                message = JSON.parse(body);
+            } catch (e) {
+                this.onError(e as Error);
+                continue;
+            }
+            if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+                this.onError(new Error(`Not a message: ${body}`));
+                continue;
+            }
+            messages.push(message);
+        }
+        return messages;
+    }
+
+    // Where the blank line after the header is.
+    private headerEnd(): number {
+        for (let i = 0; i + 3 < this.buffer.length; ++i) {
+            if (this.buffer[i] === 13 && this.buffer[i + 1] === 10 && this.buffer[i + 2] === 13 && this.buffer[i + 3] === 10) {
+                return i;
+            }
+        }
+        return -1;
+    }
+}
+
+// Over stdio, as editors run it; finishes with the exit code.
+async function serve(input: AsyncIterable<Uint8Array>, output: Writer): Promise<number> {
+    const server = new LanguageServer(message => output.write(encodeMessage(message)));
+    const reader = new MessageReader(e => server.log(`Bad message: ${e.message}`));
+    for await (const chunk of input) {
+        for (const message of reader.push(chunk)) {
+            server.receive(message);
+            if (server.exitCode !== null) {
+                return server.exitCode;
+            }
+        }
+    }
+    // The editor went away without saying.
+    return 1;
+}
+
+if (import.meta.main) {
+    process.exit(await serve(process.stdin, process.stdout));
+}
@@ -0,0 +1,50 @@
+export {NUMERICS};
+export type {Numeric, Arithmetic};
+
+import { DomainError } from './exceptions.ts';
+
+// 'decimal' works to 9 significant (decimal) digits as JOSS did,
+// whereas 'double' just uses javascript numbers as they are.
+type Arithmetic = 'decimal' | 'double';
+
+// Everything arithmetic produces (operators, functions, stepping
+// through ranges) is passed through round, so a numeric backend
+// decides both the precision and the range of numbers.
+interface Numeric {
+    round(x: number): number;
+}
+
+const SIGNIFICANT_DIGITS = 9;
+
+// JOSS numbers are 0, or 10↑-63≤|x|<10↑64 (the manual, chapter 3).
+const LARGEST = 1e64;
+const SMALLEST = 1e-63;
+
+// Neither backend has a value for what isn't a number at all (e.g.
+// (-2)↑.5), or is too big to be one (e.g. 10↑400 as a double).
+function finite(x: number): number {
+    if (Number.isNaN(x)) {
+        throw new DomainError('I have no value for that.');
+    }
+    if (!Number.isFinite(x)) {
+        throw new DomainError('I have an overflow.');
+    }
+    return x;
+}
+
+const NUMERICS: Record<Arithmetic, Numeric> = {
+    double: {
+        round: finite,
+    },
+    decimal: {
+        round: (x: number) => {
+            finite(x);
+            // Rounding could take us up to 10↑64, so check after.
+            const rounded = Number(x.toPrecision(SIGNIFICANT_DIGITS));
+            if (Math.abs(rounded) >= LARGEST) {
+                throw new DomainError('I have an overflow.');
+            }
+            return Math.abs(rounded) < SMALLEST ? 0 : rounded;
+        },
+    },
+};
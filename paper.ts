@@ -0,0 +1,139 @@
+export {Paper};
+export type {PaperOptions};
+
+import type { Writer } from './joss.ts';
+import { DomainError } from './exceptions.ts';
+
+interface PaperOptions {
+    // Lines per page; without one, the paper is continuous.
+    length?: number;
+    // Blank lines at the top and bottom of each page.
+    top?: number;
+    bottom?: number;
+    // Spaces before each line.
+    left?: number;
+}
+
+// What the output is printed on, keeping track of where we are on it
+// so Line, Page and Head (and page breaks) come out in the right place.
+class Paper {
+    writer: Writer;
+    // The first line of each new page (e.g. the time, date and page number).
+    heading: () => string;
+    length: number | null;
+    top: number;
+    bottom: number;
+    left: number;
+    page: number;
+    // Lines used so far on this page (including the top margin).
+    line: number;
+    // Whether something's been printed on the current line.
+    midLine: boolean;
+
+    constructor(writer: Writer, options: PaperOptions = {}, heading: () => string = () => '') {
+        this.writer = writer;
+        this.heading = heading;
+        this.length = options.length ?? null;
+        this.top = options.top ?? 0;
+        this.bottom = options.bottom ?? 0;
+        this.left = options.left ?? 0;
+        if (this.length !== null && this.top + this.bottom >= this.length) {
+            throw new DomainError('Page margins leave no room for printing.');
+        }
+        this.page = 1;
+        this.line = 0;
+        this.midLine = false;
+    }
+
+    write(s: string) {
+        const lines = s.split('\n');
+        lines.forEach((text, i) => {
+            if (i > 0) {
+                this.endLine();
+            }
+            if (text !== '') {
+                this.startLine();
+                this.emit(text);
+            }
+        });
+    }
+
+    // Something typed at the terminal (which echoes it) ended the line.
+    typed() {
+        this.midLine = false;
+        this.line += 1;
+    }
+
+    // Line: leave a blank line (or finish the current one).
+    newLine() {
+        this.endLine();
+    }
+
+    // Page: on to the top of the next page.
+    newPage() {
+        if (this.midLine) {
+            this.endLine();
+        }
+        if (this.length === null) {
+            this.emit('\f');
+        } else {
+            this.skip(Math.max(0, this.length - this.line));
+        }
+        this.page += 1;
+        this.line = 0;
+        this.write(this.heading());
+    }
+
+    // Head: the next line is the top of a new page (unless we're at the
+    // top of one already), wherever the paper is.
+    headPage() {
+        if (this.midLine) {
+            this.endLine();
+        }
+        if (this.line > this.top) {
+            this.page += 1;
+            this.line = this.top;
+        }
+        this.write(this.heading());
+    }
+
+    private startLine() {
+        if (this.midLine) {
+            return;
+        }
+        this.breakIfFull();
+        this.emit(' '.repeat(this.left));
+        this.midLine = true;
+    }
+
+    private endLine() {
+        if (!this.midLine) {
+            this.breakIfFull();
+        }
+        this.emit('\n');
+        this.midLine = false;
+        this.line += 1;
+    }
+
+    // Before starting a line: on to the next page (and past its heading)
+    // if there's no room on this one, and past the top margin.
+    private breakIfFull() {
+        if (this.length !== null && this.line >= this.length - this.bottom) {
+            this.newPage();
+        }
+        if (this.line < this.top) {
+            this.skip(this.top - this.line);
+        }
+    }
+
+    private skip(lines: number) {
+        this.emit('\n'.repeat(lines));
+        this.line += lines;
+    }
+
+    private emit(s: string) {
+        if (s !== '') {
+            this.writer.write(new TextEncoder().encode(s));
+        }
+    }
+}
@@ -1,11 +1,36 @@
-export {expect};
+export {expect, expectName, expectSettable};
 
 import { Token, TokenType } from './tokenise.ts';
+import { ParseError, ReservedWordError } from './exceptions.ts';
+import { SPECIAL_VALUES } from './joss.ts';
 
 function expect(context: string, t: Token, type: TokenType, raw: (string|null) = null): Token {
     const matches = t.type === type && (raw === null || t.raw === raw);
     if (!matches) {
-        throw new Error(`${context}: expected ${type}${raw ? ` "${raw}"` : ''}, got ${JSON.stringify(t)}`);
+        const expected = raw ?? TokenType[type].toLowerCase();
+        throw new ParseError(`${context}: expected ${expected}, got ${t.raw === '' ? 'end of line' : t.raw}`, t);
     }
     return t;
-}
\ No newline at end of file
+}
+
+// A letter (or a longer name), which can't be one of the words the
+// language uses, e.g. part or file.
+function expectName(context: string, t: Token): Token {
+    if (t.type === TokenType.ID) {
+        throw new ReservedWordError(`Please don't use ${t.raw} as a name.`, t);
+    }
+    return expect(context, t, TokenType.VAR);
+}
+
+// What Type reads out when it's on its own, e.g. Type time.
+const READINGS = ['time', 'date', 'nesting', 'profile'];
+
+// A name that's being given a value, which can't be one of the values
+// that come from outside (or readings) either, e.g. Set timer=5.
+function expectSettable(context: string, t: Token): Token {
+    expectName(context, t);
+    if (SPECIAL_VALUES[t.raw] !== undefined || READINGS.includes(t.raw)) {
+        throw new ReservedWordError(`Value of ${t.raw} may not be set.`, t);
+    }
+    return t;
+}
@@ -0,0 +1,99 @@
+export {Profiler};
+export type {StepProfile, Timing};
+
+// What a stored step has cost so far (times in ms).
+interface StepProfile {
+    step: string;
+    times: number;
+    // Including any Do it did (i.e. until that was finished).
+    inclusive: number;
+    // Just the step itself (including formulas it used).
+    exclusive: number;
+    // Including formulas used by formulas (and themselves).
+    formulaCalls: number;
+}
+
+// One run of a step, until it (and any Do it started) is finished.
+interface Timing {
+    entry: StepProfile;
+    started: number;
+    // Since when it's been paused (e.g. at ATTN), which doesn't count.
+    paused: number | null;
+}
+
+class Profiler {
+    enabled: boolean;
+    entries: Map<string, StepProfile>;
+    // The step being run, which is using any formulas worked out.
+    current: StepProfile | null;
+
+    constructor(enabled: boolean = false) {
+        this.enabled = enabled;
+        this.entries = new Map();
+        this.current = null;
+    }
+
+    reset() {
+        this.entries.clear();
+        this.current = null;
+    }
+
+    begin(step: string, now: number): Timing {
+        let entry = this.entries.get(step);
+        if (!entry) {
+            entry = {step, times: 0, inclusive: 0, exclusive: 0, formulaCalls: 0};
+            this.entries.set(step, entry);
+        }
+        entry.times += 1;
+        this.current = entry;
+        return {entry, started: now, paused: null};
+    }
+
+    // The step's been run, though a Do it started (if doing) is still to come.
+    ran(timing: Timing, now: number, doing: boolean) {
+        const elapsed = now - timing.started;
+        timing.entry.exclusive += elapsed;
+        if (!doing) {
+            timing.entry.inclusive += elapsed;
+        }
+        this.current = null;
+    }
+
+    // The Do that the step started is finished (or given up on).
+    done(timing: Timing, now: number) {
+        timing.entry.inclusive += (timing.paused ?? now) - timing.started;
+    }
+
+    // The computation the Do is part of has paused, stopping its clock...
+    pause(timing: Timing, now: number) {
+        timing.paused ??= now;
+    }
+
+    // ...until it carries on, as if it had started that much later.
+    unpause(timing: Timing, now: number) {
+        if (timing.paused !== null) {
+            timing.started += now - timing.paused;
+            timing.paused = null;
+        }
+    }
+
+    formulaCall() {
+        if (this.current) {
+            this.current.formulaCalls += 1;
+        }
+    }
+
+    // Costliest first.
+    sorted(): StepProfile[] {
+        return [...this.entries.values()].sort((a, b) =>
+            b.exclusive - a.exclusive || b.inclusive - a.inclusive || Number(a.step) - Number(b.step));
+    }
+
+    report(): string {
+        const lines = [`${'STEP'.padEnd(8)}${'TIMES'.padStart(8)}${'TOTAL MS'.padStart(12)}${'SELF MS'.padStart(12)}${'FORMULAS'.padStart(10)}`];
+        for (const {step, times, inclusive, exclusive, formulaCalls} of this.sorted()) {
+            lines.push(`${step.padEnd(8)}${String(times).padStart(8)}${inclusive.toFixed(3).padStart(12)}${exclusive.toFixed(3).padStart(12)}${String(formulaCalls).padStart(10)}`);
+        }
+        return lines.join('\n');
+    }
+}
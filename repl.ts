@@ -0,0 +1,99 @@
+export {StdinReader, repl};
+
+import { readSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+import { Joss, Reader } from './joss.ts';
+
+
+const PROMPT = '> ';
+
+// Programs run this many ms at a time, so Ctrl-C (ATTN) can get in.
+const TIME_SLICE = 50;
+
+// Commands (and later, replies to the program) are read synchronously,
+// as the interpreter has no reason to give up control while it waits.
+class StdinReader implements Reader {
+    private fd: number;
+    private pending: string;
+    private done: boolean;
+
+    constructor(fd: number = 0) {
+        this.fd = fd;
+        this.pending = '';
+        this.done = false;
+    }
+
+    readLine(): string | null {
+        const decoder = new TextDecoder();
+        const buffer = new Uint8Array(1024);
+
+        let newline;
+        while ((newline = this.pending.indexOf('\n')) === -1 && !this.done) {
+            const n = this.read(buffer);
+            if (n === 0) {
+                this.done = true;
+            }
+            this.pending += decoder.decode(buffer.subarray(0, n), {stream: !this.done});
+        }
+
+        if (newline === -1) {
+            const rest = this.pending;
+            this.pending = '';
+            return rest === '' ? null : rest;
+        }
+
+        const line = this.pending.slice(0, newline);
+        this.pending = this.pending.slice(newline + 1);
+        return line.replace(/\r$/, '');
+    }
+
+    private read(buffer: Uint8Array): number {
+        while (true) {
+            try {
+                return readSync(this.fd, buffer);
+            } catch (e) {
+                if ((e as NodeJS.ErrnoException).code === 'EINTR') {
+                    // e.g. Ctrl-C while waiting.
+                    continue;
+                }
+                if ((e as NodeJS.ErrnoException).code === 'EAGAIN') {
+                    // Non-blocking stdin with nothing there yet.
+                    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 10);
+                    continue;
+                }
+                if ((e as NodeJS.ErrnoException).code === 'EOF') {
+                    return 0;
+                }
+                throw e;
+            }
+        }
+    }
+}
+
+async function repl(joss: Joss) {
+    while (true) {
+        joss.output(PROMPT);
+        const line = joss.stdin.readLine();
+        if (line === null) {
+            joss.output('\n');
+            return;
+        }
+        joss.paper.typed();
+        joss.evalInteractive(line);
+        while (joss.yielded) {
+            // Let any signals through.
+            await new Promise(resolve => setImmediate(resolve));
+            joss.carryOnInteractive();
+        }
+    }
+}
+
+if (import.meta.main) {
+    const fileDirectory = process.env.JOSS_FILE ?? join(homedir(), '.joss');
+    const joss = new Joss(new StdinReader(), process.stdout, {fileDirectory, layout: 'joss', arithmetic: 'decimal', timeSlice: TIME_SLICE});
+    // ATTN: stop at the next step (rather than killing us, and everything with us).
+    process.on('SIGINT', () => joss.attention());
+    await repl(joss);
+}
@@ -1,9 +1,12 @@
 export type {Token};
-export {TokenType, TokenIterator, tokenise};
+export {TokenType, TokenIterator, tokenise, sourceSince};
 
 interface Token {
     type: TokenType
     raw: string
+    // Where it is in the (trimmed) line, so we can quote what was typed.
+    start: number
+    end: number
 }
 
 enum TokenType {
@@ -25,10 +28,10 @@ enum TokenType {
 
 const TOKEN_TYPES: Record<TokenType, RegExp> = {
     [TokenType.SPACE]: /\s+/,
-    [TokenType.ID]: /(?:Type|Set|Let|Do|To|if|for|times|step|part)/,
+    [TokenType.ID]: /(?:Type|Set|Let|Do|To|Demand|Delete|Done|Quit|Stop|Go|Cancel|Reset|Line|Page|Head|Trace|Profile|Break|Step|Check|Form|Store|Get|if|for|times|step|part|as|replacing|in|form|formula|all|file)\b/,
     [TokenType.VAR]: /[A-Za-z]\w*/,
     [TokenType.NUM]: /(?:[0-9]*[.][0-9]+|[0-9]+)/,
-    [TokenType.OP]: /(?:!=|[><]=|[-+*/^=<>])/,
+    [TokenType.OP]: /(?:!=|[><]=|[-+*/^=<>·↑≤≥≠'|])/,
     [TokenType.STR]: /".*"/, // Oddly, this greedy behaviour for double quotes is correct.
     [TokenType.OPEN_BRACKET]: /[([]/,
     [TokenType.CLOSE_BRACKET]: /[\])]/,
@@ -40,18 +43,28 @@ const TOKEN_TYPES: Record<TokenType, RegExp> = {
     [TokenType.END]: /impossible/,
 };
 
+// Operators that are words (which would otherwise be read as variables),
+// including the CTS keyboard's spellings of the comparisons.
+const WORD_OPERATORS = ['and', 'or', 'not', 'le', 'ge', 'lt', 'gt', 'ne'];
+
 // Build TYPES into a set of named groups.
 const TOKEN_REGEX = Object.entries(TOKEN_TYPES).map(([k, v]) => `(?<${TokenType[k as keyof typeof TokenType]}>${v.source})`).join('|');
 
 class TokenIterator<T> {
     it: Iterator<T>;
-    state: T;
+    // Tokens we've looked ahead at but not yet consumed.
+    pending: T[];
+    // The last one consumed.
+    previous: T | null;
     terminal: T;
+    source: string;
 
-    constructor(it: Iterator<T>, terminal: T) {
+    constructor(it: Iterator<T>, terminal: T, source: string = '') {
         this.it = it;
         this.terminal = terminal;
-        this.state = this._next();
+        this.pending = [];
+        this.previous = null;
+        this.source = source;
     }
 
     _next(): T {
@@ -60,23 +73,31 @@ class TokenIterator<T> {
     }
 
     next(): T {
-        const oldState = this.state;            
-        this.state = this._next();
-        return oldState;
+        this.peek();
+        this.previous = this.pending.shift()!;
+        return this.previous;
     }
 
-    peek(): T {
-        return this.state;
+    // i.e. peek(1) is the token after the next one.
+    peek(n: number = 0): T {
+        while (this.pending.length <= n) {
+            this.pending.push(this._next());
+        }
+        return this.pending[n];
     }
 }
 
 function tokenise(s: string): TokenIterator<Token> {
-    return new TokenIterator(_tokenise(s), {type: TokenType.END, raw: ''});
+    s = s.trim();
+    return new TokenIterator(_tokenise(s), {type: TokenType.END, raw: '', start: s.length, end: s.length}, s);
 }
 
-function *_tokenise(s: string): Iterator<Token> {
-    s = s.trim();
+// What was typed from the given token up to the last one consumed.
+function sourceSince(tokens: TokenIterator<Token>, from: Token): string {
+    return tokens.source.slice(from.start, tokens.previous?.end ?? from.start);
+}
 
+function *_tokenise(s: string): Iterator<Token> {
     if (s === '' || s.startsWith('*') || s.endsWith('*')) {
         // comment form
         return;
@@ -88,9 +109,12 @@ function *_tokenise(s: string): Iterator<Token> {
     while ((m = re.exec(s)) && m.groups) {
         for (const [typeString, raw] of Object.entries(m.groups)) {
             if (raw !== undefined) {
-                const type = TokenType[typeString as keyof typeof TokenType];
+                let type = TokenType[typeString as keyof typeof TokenType];
+                if (type === TokenType.VAR && WORD_OPERATORS.includes(raw)) {
+                    type = TokenType.OP;
+                }
                 if (type !== TokenType.SPACE) {
-                    yield {type, raw};
+                    yield {type, raw, start: m.index, end: m.index + raw.length};
                 }
             }
         }